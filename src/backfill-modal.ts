@@ -0,0 +1,118 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { HealthSource } from './services/health-source';
+
+export class BackfillModal extends Modal {
+    private sourceId: string;
+    private startDate: string;
+    private endDate: string;
+    private cancelled = false;
+    private running = false;
+
+    constructor(app: App, private plugin: BodyTrackerPlugin, private sources: HealthSource[]) {
+        super(app);
+        const moment = (window as any).moment;
+        this.sourceId = sources[0]?.id || '';
+        this.startDate = moment().subtract(1, 'year').format('YYYY-MM-DD');
+        this.endDate = moment().format('YYYY-MM-DD');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Backfill from Provider' });
+
+        new Setting(contentEl)
+            .setName('Provider')
+            .addDropdown(dropdown => {
+                this.sources.forEach(source => dropdown.addOption(source.id, source.name));
+                dropdown
+                    .setValue(this.sourceId)
+                    .onChange(value => this.sourceId = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Start Date')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.startDate)
+                    .onChange(value => this.startDate = value);
+            });
+
+        new Setting(contentEl)
+            .setName('End Date')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.endDate)
+                    .onChange(value => this.endDate = value);
+            });
+
+        const progressEl = contentEl.createEl('progress', { cls: 'body-tracker-progress' });
+        progressEl.max = 1;
+        progressEl.value = 0;
+        progressEl.hide();
+        const statusEl = contentEl.createDiv({ cls: 'body-tracker-progress-status' });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => {
+                    this.cancelled = true;
+                    if (!this.running) this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Start Backfill')
+                .setCta()
+                .onClick(async () => {
+                    if (this.running) return;
+
+                    const source = this.sources.find(s => s.id === this.sourceId);
+                    const moment = (window as any).moment;
+                    const start = moment(this.startDate, 'YYYY-MM-DD', true);
+                    const end = moment(this.endDate, 'YYYY-MM-DD', true).endOf('day');
+
+                    if (!source || !start.isValid() || !end.isValid() || !start.isBefore(end)) {
+                        new Notice('Please choose a provider and a valid date range');
+                        return;
+                    }
+
+                    this.running = true;
+                    this.cancelled = false;
+                    btn.setDisabled(true);
+                    progressEl.show();
+                    statusEl.setText('Fetching measurements...');
+
+                    try {
+                        const imported = await this.plugin.syncService.backfill(source, start.unix(), end.unix(), {
+                            onProgress: (done, total) => {
+                                progressEl.max = total;
+                                progressEl.value = done;
+                                statusEl.setText(`Fetched ${done} of ${total} periods`);
+                            },
+                            isCancelled: () => this.cancelled
+                        });
+
+                        // Cancelling while the fetched records are written doesn't stop the write
+                        if (this.cancelled && imported === 0) {
+                            new Notice('Backfill cancelled, nothing was imported');
+                        } else {
+                            new Notice(`Backfill complete: imported ${imported} measurement${imported === 1 ? '' : 's'} from ${source.name}`);
+                        }
+                        this.close();
+                    } catch (error) {
+                        console.error('Backfill failed:', error);
+                        statusEl.setText('Backfill failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+                        btn.setDisabled(false);
+                    } finally {
+                        this.running = false;
+                    }
+                }));
+    }
+
+    onClose() {
+        // Stop any in-flight backfill when the modal is dismissed
+        this.cancelled = true;
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,170 @@
+export interface ChartPoint {
+    time: number; // Unix milliseconds
+    value: number;
+}
+
+export interface ChartSeries {
+    label: string;
+    unit: string;
+    points: ChartPoint[];
+    trend?: boolean; // Drawn dashed and without markers
+}
+
+export interface ChartOptions {
+    height?: number;
+    decimals?: number;
+    goal?: number; // Drawn as a dashed horizontal line
+}
+
+const SERIES_COLORS = [
+    'var(--color-blue)',
+    'var(--color-red)',
+    'var(--color-green)',
+    'var(--color-orange)',
+    'var(--color-purple)',
+    'var(--color-cyan)'
+];
+
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+const TICK_COUNT = 5;
+
+/**
+ * Draw one or more time series as an SVG line chart with a shared y-axis and hover tooltips
+ */
+export function renderTimeSeriesChart(containerEl: HTMLElement, series: ChartSeries[], options: ChartOptions = {}) {
+    const moment = (window as any).moment;
+    const visible = series.filter(s => s.points.length > 0);
+
+    const chartEl = containerEl.createDiv({ cls: 'body-tracker-chart' });
+    if (visible.length === 0) {
+        chartEl.createDiv({ cls: 'body-tracker-chart-empty', text: 'No measurements in this range' });
+        return;
+    }
+
+    const width = Math.max(containerEl.clientWidth, 320);
+    const height = options.height || 260;
+    const decimals = options.decimals ?? 1;
+
+    // Scales
+    const allPoints = visible.flatMap(s => s.points);
+    let minTime = Math.min(...allPoints.map(p => p.time));
+    let maxTime = Math.max(...allPoints.map(p => p.time));
+    if (minTime === maxTime) {
+        minTime -= 12 * 60 * 60 * 1000;
+        maxTime += 12 * 60 * 60 * 1000;
+    }
+    const values = allPoints.map(p => p.value).concat(options.goal !== undefined ? [options.goal] : []);
+    let minValue = Math.min(...values);
+    let maxValue = Math.max(...values);
+    const margin = (maxValue - minValue) * 0.05 || Math.abs(maxValue) * 0.05 || 1;
+    minValue -= margin;
+    maxValue += margin;
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const x = (time: number) => PADDING.left + (time - minTime) / (maxTime - minTime) * plotWidth;
+    const y = (value: number) => PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+    const svg = chartEl.createSvg('svg', {
+        attr: { viewBox: `0 0 ${width} ${height}`, width: '100%', height }
+    });
+
+    // Axes and grid
+    for (let i = 0; i <= TICK_COUNT; i++) {
+        const value = minValue + (maxValue - minValue) * i / TICK_COUNT;
+        svg.createSvg('line', {
+            cls: 'body-tracker-chart-grid',
+            attr: { x1: PADDING.left, x2: width - PADDING.right, y1: y(value), y2: y(value) }
+        });
+        svg.createSvg('text', {
+            cls: 'body-tracker-chart-label',
+            attr: { x: PADDING.left - 6, y: y(value) + 4, 'text-anchor': 'end' }
+        }).textContent = value.toFixed(decimals);
+    }
+
+    const dateFormat = maxTime - minTime > 365 * 24 * 60 * 60 * 1000 ? 'MMM YYYY' : 'MMM D';
+    for (let i = 0; i <= TICK_COUNT; i++) {
+        const time = minTime + (maxTime - minTime) * i / TICK_COUNT;
+        svg.createSvg('text', {
+            cls: 'body-tracker-chart-label',
+            attr: {
+                x: x(time),
+                y: height - 8,
+                'text-anchor': i === 0 ? 'start' : i === TICK_COUNT ? 'end' : 'middle'
+            }
+        }).textContent = moment(time).format(dateFormat);
+    }
+
+    if (options.goal !== undefined) {
+        svg.createSvg('line', {
+            cls: 'body-tracker-chart-goal',
+            attr: { x1: PADDING.left, x2: width - PADDING.right, y1: y(options.goal), y2: y(options.goal) }
+        });
+    }
+
+    // Series
+    visible.forEach((s, index) => {
+        const color = SERIES_COLORS[index % SERIES_COLORS.length];
+        const path = s.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+        svg.createSvg('path', {
+            cls: s.trend ? ['body-tracker-chart-line', 'body-tracker-chart-trend'] : 'body-tracker-chart-line',
+            attr: { d: path, stroke: color }
+        });
+        if (s.trend) return;
+        s.points.forEach(p => {
+            svg.createSvg('circle', { attr: { cx: x(p.time), cy: y(p.value), r: 2.5, fill: color } });
+        });
+    });
+
+    // Hover: highlight the closest reading of each series and list them in a tooltip
+    const cursor = svg.createSvg('line', {
+        cls: 'body-tracker-chart-cursor',
+        attr: { y1: PADDING.top, y2: height - PADDING.bottom }
+    });
+    cursor.style.display = 'none';
+    const tooltip = chartEl.createDiv({ cls: 'body-tracker-chart-tooltip' });
+    tooltip.hide();
+
+    const overlay = svg.createSvg('rect', {
+        attr: { x: PADDING.left, y: PADDING.top, width: plotWidth, height: plotHeight, fill: 'transparent' }
+    });
+
+    overlay.addEventListener('mousemove', (event: MouseEvent) => {
+        const bounds = svg.getBoundingClientRect();
+        const scale = width / bounds.width;
+        const time = minTime + ((event.clientX - bounds.left) * scale - PADDING.left) / plotWidth * (maxTime - minTime);
+
+        const nearest = visible.map(s => ({
+            series: s,
+            point: s.points.reduce((best, p) => Math.abs(p.time - time) < Math.abs(best.time - time) ? p : best)
+        }));
+        const anchor = nearest.reduce((best, n) => Math.abs(n.point.time - time) < Math.abs(best.point.time - time) ? n : best);
+
+        cursor.setAttribute('x1', String(x(anchor.point.time)));
+        cursor.setAttribute('x2', String(x(anchor.point.time)));
+        cursor.style.display = '';
+
+        tooltip.empty();
+        tooltip.createDiv({ cls: 'body-tracker-chart-tooltip-date', text: moment(anchor.point.time).format('YYYY-MM-DD HH:mm') });
+        nearest.forEach(({ series: s, point }, index) => {
+            const row = tooltip.createDiv();
+            row.createSpan({ cls: 'body-tracker-chart-swatch' }).style.backgroundColor = SERIES_COLORS[index % SERIES_COLORS.length];
+            row.appendText(`${s.label}: ${point.value.toFixed(decimals)}${s.unit ? ' ' + s.unit : ''}`);
+        });
+        tooltip.style.left = `${x(anchor.point.time) / scale}px`;
+        tooltip.show();
+    });
+
+    overlay.addEventListener('mouseleave', () => {
+        cursor.style.display = 'none';
+        tooltip.hide();
+    });
+
+    // Legend
+    const legend = chartEl.createDiv({ cls: 'body-tracker-chart-legend' });
+    visible.forEach((s, index) => {
+        const item = legend.createSpan({ cls: 'body-tracker-chart-legend-item' });
+        item.createSpan({ cls: 'body-tracker-chart-swatch' }).style.backgroundColor = SERIES_COLORS[index % SERIES_COLORS.length];
+        item.appendText(s.unit ? `${s.label} (${s.unit})` : s.label);
+    });
+}
@@ -0,0 +1,191 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { MeasurementSystem } from './types';
+import type { IndexedMeasurement } from './services/measurement-index';
+import { ChartSeries, renderTimeSeriesChart } from './chart-renderer';
+import { getDisplayUnit, tryConvertMeasurementValue } from './units';
+
+export const VIEW_TYPE_CHART = 'body-tracker-chart';
+
+type RangePreset = '1M' | '3M' | '1Y' | 'All';
+
+const RANGE_MONTHS: Record<RangePreset, number | undefined> = {
+    '1M': 1,
+    '3M': 3,
+    '1Y': 12,
+    'All': undefined
+};
+
+export class ChartView extends ItemView {
+    private range: RangePreset = '3M';
+    private userId = ''; // Empty shows every user as its own series
+    private system: MeasurementSystem;
+    private selected = new Set<string>();
+    private showTrend = false;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: BodyTrackerPlugin) {
+        super(leaf);
+        this.system = plugin.settings.measurementSystem;
+        const first = plugin.settings.measurements[0];
+        if (first) this.selected.add(first.name);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CHART;
+    }
+
+    getDisplayText(): string {
+        return 'Body Tracker';
+    }
+
+    getIcon(): string {
+        return 'line-chart';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.plugin.measurementIndex.on('changed', () => this.render()));
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('body-tracker-chart-view');
+
+        const controls = contentEl.createDiv({ cls: 'body-tracker-chart-controls' });
+
+        // Range presets
+        const rangeGroup = controls.createDiv({ cls: 'body-tracker-chart-group' });
+        (Object.keys(RANGE_MONTHS) as RangePreset[]).forEach(range => {
+            const button = rangeGroup.createEl('button', { text: range });
+            if (range === this.range) button.addClass('mod-cta');
+            button.addEventListener('click', () => {
+                this.range = range;
+                this.render();
+            });
+        });
+
+        // Unit toggle
+        const unitGroup = controls.createDiv({ cls: 'body-tracker-chart-group' });
+        (['metric', 'imperial'] as MeasurementSystem[]).forEach(system => {
+            const button = unitGroup.createEl('button', { text: system === 'metric' ? 'Metric' : 'Imperial' });
+            if (system === this.system) button.addClass('mod-cta');
+            button.addEventListener('click', () => {
+                this.system = system;
+                this.render();
+            });
+        });
+
+        // Smoothed trend next to each line
+        const trendButton = controls.createDiv({ cls: 'body-tracker-chart-group' }).createEl('button', { text: 'Trend' });
+        if (this.showTrend) trendButton.addClass('mod-cta');
+        trendButton.addEventListener('click', () => {
+            this.showTrend = !this.showTrend;
+            this.render();
+        });
+
+        // User filter
+        if (this.plugin.settings.users.length > 1) {
+            const userSelect = controls.createEl('select', { cls: 'dropdown' });
+            userSelect.createEl('option', { text: 'All users', value: '' });
+            this.plugin.settings.users.forEach(user => userSelect.createEl('option', { text: user.name, value: user.id }));
+            userSelect.value = this.userId;
+            userSelect.addEventListener('change', () => {
+                this.userId = userSelect.value;
+                this.render();
+            });
+        }
+
+        // Measurements to overlay
+        const measurementGroup = contentEl.createDiv({ cls: 'body-tracker-chart-measurements' });
+        this.plugin.settings.measurements.forEach(measurement => {
+            const label = measurementGroup.createEl('label');
+            const checkbox = label.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected.has(measurement.name);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.selected.add(measurement.name);
+                } else {
+                    this.selected.delete(measurement.name);
+                }
+                this.render();
+            });
+            label.appendText(measurement.name);
+        });
+
+        renderTimeSeriesChart(contentEl, this.getSeries(), { goal: this.getGoalTarget() });
+    }
+
+    /**
+     * A goal line is shown when the chart is down to a single measurement of a single user
+     */
+    private getGoalTarget(): number | undefined {
+        const userId = this.userId || (this.plugin.settings.users.length === 1 ? this.plugin.settings.users[0].id : '');
+        if (!userId || this.selected.size !== 1) return undefined;
+
+        const measurement = this.plugin.settings.measurements.find(m => this.selected.has(m.name));
+        const goal = measurement && this.plugin.goalService.getGoals(userId, measurement.name)[0];
+        if (!measurement || !goal) return undefined;
+
+        return tryConvertMeasurementValue(
+            measurement,
+            goal.target,
+            goal.unit,
+            getDisplayUnit(measurement, this.plugin.settings, this.system)
+        );
+    }
+
+    private getSeries(): ChartSeries[] {
+        const moment = (window as any).moment;
+        const months = RANGE_MONTHS[this.range];
+        const from = months ? moment().subtract(months, 'months').valueOf() : undefined;
+
+        const series: ChartSeries[] = [];
+        for (const measurement of this.plugin.settings.measurements) {
+            if (!this.selected.has(measurement.name)) continue;
+
+            const unit = getDisplayUnit(measurement, this.plugin.settings, this.system);
+            // Read from the start so the trend is already settled when the range begins
+            const entries = this.plugin.measurementIndex.getReadings({
+                measurement: measurement.name,
+                userId: this.userId || undefined
+            });
+
+            // One line per user unless a single user is selected
+            const byUser = new Map<string, IndexedMeasurement[]>();
+            entries.forEach(entry => {
+                if (!byUser.has(entry.user)) byUser.set(entry.user, []);
+                byUser.get(entry.user)!.push(entry);
+            });
+
+            byUser.forEach((userEntries, userName) => {
+                const label = byUser.size > 1 || (!this.userId && this.plugin.settings.users.length > 1)
+                    ? `${measurement.name} · ${userName}`
+                    : measurement.name;
+                const points = userEntries.flatMap(entry => {
+                    const value = tryConvertMeasurementValue(measurement, entry.value, entry.unit, unit);
+                    return value === undefined ? [] : [{ time: entry.timestamp, value }];
+                });
+                const inRange = (point: { time: number }) => from === undefined || point.time >= from;
+
+                series.push({ label, unit, points: points.filter(inRange) });
+
+                if (this.showTrend) {
+                    const trend = this.plugin.trendService.smooth(points.map(p => ({ timestamp: p.time, value: p.value })));
+                    series.push({
+                        label: `${label} (trend)`,
+                        unit,
+                        points: points.map((p, i) => ({ time: p.time, value: trend[i] })).filter(inRange),
+                        trend: true
+                    });
+                }
+            });
+        }
+
+        return series;
+    }
+}
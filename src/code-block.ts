@@ -0,0 +1,243 @@
+import { MarkdownRenderChild } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { Measurement, User } from './types';
+import { ChartSeries, renderTimeSeriesChart } from './chart-renderer';
+import { formatValue, getDisplayUnit, getUserSystem, tryConvertMeasurementValue } from './units';
+
+export const CODE_BLOCK_LANGUAGE = 'body-tracker';
+
+type BlockType = 'line' | 'table' | 'stats';
+
+interface BlockOptions {
+    measurements: Measurement[];
+    user?: User;
+    from?: number; // Unix milliseconds
+    type: BlockType;
+    goal?: number;
+    limit: number;
+    trend: boolean;
+}
+
+const RANGE_UNITS: Record<string, string> = { d: 'days', w: 'weeks', m: 'months', y: 'years' };
+
+/**
+ * Renders a ```body-tracker block, e.g.
+ *
+ *     measurement: Waist, Hips
+ *     user: Alice
+ *     range: 90d
+ *     type: line
+ *     trend: yes
+ */
+export class BodyTrackerBlock extends MarkdownRenderChild {
+    constructor(containerEl: HTMLElement, private source: string, private plugin: BodyTrackerPlugin) {
+        super(containerEl);
+    }
+
+    onload() {
+        // Re-render whenever new measurements are indexed
+        this.registerEvent(this.plugin.measurementIndex.on('changed', () => this.render()));
+        this.render();
+    }
+
+    private render() {
+        const { containerEl } = this;
+        containerEl.empty();
+
+        let options: BlockOptions;
+        try {
+            options = this.parseOptions();
+        } catch (error) {
+            containerEl.createDiv({
+                cls: 'body-tracker-block-error',
+                text: `body-tracker: ${error instanceof Error ? error.message : error}`
+            });
+            return;
+        }
+
+        switch (options.type) {
+            case 'table':
+                this.renderTable(options);
+                break;
+            case 'stats':
+                this.renderStats(options);
+                break;
+            default:
+                renderTimeSeriesChart(containerEl, this.getSeries(options), { goal: options.goal });
+        }
+    }
+
+    private parseOptions(): BlockOptions {
+        const settings = this.plugin.settings;
+        const raw: Record<string, string> = {};
+        for (const line of this.source.split('\n')) {
+            const separator = line.indexOf(':');
+            if (separator < 0) continue;
+            raw[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+        }
+
+        const names = (raw.measurement || raw.measurements || settings.measurements[0]?.name || '')
+            .split(',')
+            .map(name => name.trim())
+            .filter(name => name);
+        const measurements = names.map(name => {
+            const measurement = settings.measurements.find(m => m.name.toLowerCase() === name.toLowerCase());
+            if (!measurement) throw new Error(`unknown measurement "${name}"`);
+            return measurement;
+        });
+        if (measurements.length === 0) throw new Error('no measurement configured');
+
+        let user: User | undefined;
+        if (raw.user) {
+            user = settings.users.find(u => u.name.toLowerCase() === raw.user.toLowerCase());
+            if (!user) throw new Error(`unknown user "${raw.user}"`);
+        }
+
+        const type = (raw.type || 'line').toLowerCase();
+        if (!['line', 'table', 'stats'].includes(type)) {
+            throw new Error(`unknown type "${raw.type}", use line, table or stats`);
+        }
+
+        let goal: number | undefined;
+        if (raw.goal) {
+            goal = parseFloat(raw.goal);
+            if (isNaN(goal)) throw new Error(`goal "${raw.goal}" is not a number`);
+        }
+
+        // Fall back to the user's configured goal for a single measurement
+        if (goal === undefined && user && measurements.length === 1) {
+            const configured = this.plugin.goalService.getGoals(user.id, measurements[0].name)[0];
+            const unit = getDisplayUnit(measurements[0], settings, getUserSystem(settings, user.id));
+            goal = configured && tryConvertMeasurementValue(measurements[0], configured.target, configured.unit, unit);
+        }
+
+        return {
+            measurements,
+            user,
+            from: this.parseRange(raw.range),
+            type: type as BlockType,
+            goal,
+            limit: parseInt(raw.limit) || 20,
+            trend: ['yes', 'true', 'on'].includes((raw.trend || '').toLowerCase())
+        };
+    }
+
+    /**
+     * "90d", "12w", "6m", "1y" or "all"
+     */
+    private parseRange(range?: string): number | undefined {
+        if (!range || range.toLowerCase() === 'all') return undefined;
+
+        const match = /^(\d+)\s*([dwmy])$/i.exec(range);
+        if (!match) throw new Error(`range "${range}" should look like 90d, 12w, 6m or 1y`);
+
+        const moment = (window as any).moment;
+        return moment().subtract(parseInt(match[1]), RANGE_UNITS[match[2].toLowerCase()]).valueOf();
+    }
+
+    /**
+     * Readings of each measurement in the unit the block's user records in
+     */
+    private getSeries(options: BlockOptions): ChartSeries[] {
+        const settings = this.plugin.settings;
+        const system = getUserSystem(settings, options.user?.id);
+
+        return options.measurements.flatMap(measurement => {
+            const unit = getDisplayUnit(measurement, settings, system);
+            // Read from the start so the trend is already settled when the range begins
+            const readings = this.plugin.measurementIndex.getReadings({
+                measurement: measurement.name,
+                userId: options.user?.id
+            });
+            const points = readings.flatMap(reading => {
+                const value = tryConvertMeasurementValue(measurement, reading.value, reading.unit, unit);
+                return value === undefined ? [] : [{ time: reading.timestamp, value }];
+            });
+            const inRange = (point: { time: number }) => options.from === undefined || point.time >= options.from;
+
+            const series: ChartSeries[] = [{ label: measurement.name, unit, points: points.filter(inRange) }];
+            if (options.trend && options.type === 'line') {
+                const trend = this.plugin.trendService.smooth(points.map(p => ({ timestamp: p.time, value: p.value })));
+                series.push({
+                    label: `${measurement.name} (trend)`,
+                    unit,
+                    points: points.map((p, i) => ({ time: p.time, value: trend[i] })).filter(inRange),
+                    trend: true
+                });
+            }
+            return series;
+        });
+    }
+
+    private renderTable(options: BlockOptions) {
+        const moment = (window as any).moment;
+        const series = this.getSeries(options);
+        const rows = series
+            .flatMap(s => s.points.map(point => ({ series: s, point })))
+            .sort((a, b) => b.point.time - a.point.time)
+            .slice(0, options.limit);
+
+        if (rows.length === 0) {
+            this.containerEl.createDiv({ cls: 'body-tracker-chart-empty', text: 'No measurements in this range' });
+            return;
+        }
+
+        const table = this.containerEl.createEl('table');
+        const header = table.createEl('thead').createEl('tr');
+        ['Date', 'Measurement', 'Value'].forEach(label => header.createEl('th', { text: label }));
+
+        const body = table.createEl('tbody');
+        rows.forEach(({ series: s, point }) => {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: moment(point.time).format('YYYY-MM-DD HH:mm') });
+            row.createEl('td', { text: s.label });
+            row.createEl('td', { text: s.unit ? `${formatValue(point.value)} ${s.unit}` : formatValue(point.value) });
+        });
+    }
+
+    private renderStats(options: BlockOptions) {
+        const grid = this.containerEl.createDiv({ cls: 'body-tracker-stats' });
+
+        for (const s of this.getSeries(options)) {
+            const values = s.points.map(point => point.value);
+            if (values.length === 0) continue;
+
+            const format = (value: number) => s.unit ? `${formatValue(value)} ${s.unit}` : formatValue(value);
+            const change = values[values.length - 1] - values[0];
+            const stats: Array<[string, string]> = [
+                ['Latest', format(values[values.length - 1])],
+                ['Min', format(Math.min(...values))],
+                ['Max', format(Math.max(...values))],
+                ['Average', format(values.reduce((sum, value) => sum + value, 0) / values.length)],
+                ['Change', (change > 0 ? '+' : '') + format(change)]
+            ];
+            const trend = this.plugin.trendService.getStats(s.label, options.user?.id);
+            if (trend) {
+                stats.push(['Trend', format(trend.trend)]);
+                if (trend.delta !== undefined) {
+                    stats.push(['Since last', this.plugin.trendService.formatChange(trend.delta, s.unit)]);
+                }
+                if (trend.weeklyRate !== undefined) {
+                    stats.push(['Per week', this.plugin.trendService.formatChange(trend.weeklyRate, s.unit)]);
+                }
+                if (trend.monthlyRate !== undefined) {
+                    stats.push(['Per month', this.plugin.trendService.formatChange(trend.monthlyRate, s.unit)]);
+                }
+            }
+            if (options.goal !== undefined) {
+                stats.push(['To goal', format(options.goal - values[values.length - 1])]);
+            }
+
+            grid.createEl('h4', { text: s.label });
+            stats.forEach(([label, value]) => {
+                const stat = grid.createDiv({ cls: 'body-tracker-stat' });
+                stat.createDiv({ cls: 'body-tracker-stat-label', text: label });
+                stat.createDiv({ cls: 'body-tracker-stat-value', text: value });
+            });
+        }
+
+        if (grid.childElementCount === 0) {
+            grid.createDiv({ cls: 'body-tracker-chart-empty', text: 'No measurements in this range' });
+        }
+    }
+}
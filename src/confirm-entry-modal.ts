@@ -0,0 +1,35 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Ask before saving measurements that arrived from outside Obsidian
+ */
+export class ConfirmEntryModal extends Modal {
+    constructor(app: App, private summary: string, private onConfirm: () => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Save Measurements?' });
+        contentEl.createEl('p', { text: 'A link asked Body Tracker to record:' });
+        contentEl.createEl('p', { text: this.summary });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => {
+                    this.onConfirm();
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
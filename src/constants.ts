@@ -8,6 +8,7 @@ export const DEFAULT_SETTINGS = {
     journalEntryTemplate: '<measured>: <measure> <unit>',
     stringPrefixLetter: 'b',
     decoratedTaskSymbol: '⚡️',
+    journalFieldMode: 'none',
 
     // Measurement file settings
     enableMeasurementFiles: true,
@@ -27,44 +28,84 @@ export const DEFAULT_SETTINGS = {
     users: [],
     defaultUser: undefined,
     measurementSystem: 'metric',
+    imperialMassUnit: 'lbs',
     measurements: [
         {
             name: 'Weight',
-            type: 'weight',
-            unit: 'kg'
+            type: 'mass',
+            unit: 'kg',
+            reminder: { frequency: 'daily' }
         },
         {
             name: 'Body Fat',
-            type: 'weight',
-            unit: 'kg'
+            type: 'percentage',
+            unit: '%'
         },
         {
             name: 'Height',
             type: 'length',
-            unit: 'cm'
+            unit: 'cm',
+            reminder: { frequency: 'yearly' }
         },
         {
             name: 'Chest',
             type: 'length',
-            unit: 'cm'
+            unit: 'cm',
+            reminder: { frequency: 'weekly', weekday: 0 }
         },
         {
             name: 'Waist',
             type: 'length',
-            unit: 'cm'
+            unit: 'cm',
+            reminder: { frequency: 'weekly', weekday: 0 }
         },
         {
             name: 'Hips',
             type: 'length',
-            unit: 'cm'
+            unit: 'cm',
+            reminder: { frequency: 'weekly', weekday: 0 }
         }
     ],
+    goals: [],
+    changeWarningThreshold: 10,
+
+    // Trend defaults, Hacker's Diet smoothing
+    trendMethod: 'ema',
+    trendSmoothing: 0.1,
+    trendWindow: 7,
+    writeTrendValues: false,
+
+    // Status bar and ribbon
+    showStatusBar: true,
+    statusBarMeasurements: ['Weight'],
+    showRibbonIcon: true,
+
+    // Reminder defaults
+    enableReminders: false,
+    reminderPrompt: 'notice',
+    reminderJournalTasks: false,
+    reminderState: {},
+
+    // Ask before saving measurements from obsidian://body-tracker links
+    confirmLinkedEntries: true,
+
+    // Export defaults
+    exportFolder: 'Exports',
 
     // Google Fit defaults
     enableGoogleFit: false,
     googleClientId: '',
     googleClientSecret: '',
-    googleAutoSyncInterval: 60
+    googleAutoSyncInterval: 60,
+    googleWriteBack: false,
+    googlePendingWrites: [],
+
+    // Withings defaults
+    enableWithings: false,
+    withingsClientId: '',
+    withingsClientSecret: '',
+    withingsRedirectUri: 'http://localhost:16321/callback',
+    withingsAutoSyncInterval: 60
 };
 
 export const MEASUREMENT_UNITS = ['cm', 'inches'];
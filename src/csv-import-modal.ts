@@ -0,0 +1,318 @@
+import { App, DropdownComponent, Modal, Notice, Setting, TFile } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import { CsvImportOptions, CsvImportResult, DecimalSeparator, ISO_DATE_FORMAT } from './services/csv-import-service';
+
+const PREVIEW_ROWS = 10;
+
+/**
+ * Import a CSV from the vault or disk: pick the file, map its columns to measurements
+ * and users, check the preview and write everything in one batch
+ */
+export class CsvImportModal extends Modal {
+    private rows: string[][] = [];
+    private fileName = '';
+    private options?: CsvImportOptions;
+    private importing = false;
+
+    constructor(app: App, private plugin: BodyTrackerPlugin) {
+        super(app);
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (!this.options) {
+            this.renderSource();
+        } else {
+            this.renderMapping(this.options);
+        }
+    }
+
+    private renderSource() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Import CSV' });
+        contentEl.createEl('p', { text: 'Import readings exported from spreadsheets or apps such as Libra, Renpho, Happy Scale or MyFitnessPal.' });
+
+        const vaultFiles = this.app.vault.getFiles()
+            .filter(file => file.extension === 'csv')
+            .sort((a, b) => a.path.localeCompare(b.path));
+        let selected = vaultFiles[0]?.path || '';
+
+        new Setting(contentEl)
+            .setName('Vault File')
+            .setDesc(vaultFiles.length > 0 ? 'A CSV file in this vault' : 'No CSV files in this vault')
+            .addDropdown(dropdown => {
+                vaultFiles.forEach(file => dropdown.addOption(file.path, file.path));
+                dropdown
+                    .setValue(selected)
+                    .onChange(value => selected = value);
+            })
+            .addButton(btn => btn
+                .setButtonText('Open')
+                .setDisabled(vaultFiles.length === 0)
+                .onClick(async () => {
+                    const file = this.app.vault.getAbstractFileByPath(selected);
+                    if (file instanceof TFile) {
+                        this.load(file.name, await this.app.vault.read(file));
+                    }
+                }));
+
+        new Setting(contentEl)
+            .setName('File on Disk')
+            .setDesc('A CSV file anywhere on this device')
+            .addButton(btn => btn
+                .setButtonText('Choose File...')
+                .setCta()
+                .onClick(() => {
+                    const input = document.createElement('input');
+                    input.type = 'file';
+                    input.accept = '.csv,.tsv,.txt,text/csv';
+                    input.addEventListener('change', async () => {
+                        const file = input.files?.[0];
+                        if (file) this.load(file.name, await file.text());
+                    });
+                    input.click();
+                }));
+    }
+
+    private load(fileName: string, text: string) {
+        const service = this.plugin.csvImportService;
+        this.rows = service.parse(text);
+        if (this.rows.length === 0) {
+            new Notice(`${fileName} has no rows to import`);
+            return;
+        }
+
+        this.fileName = fileName;
+        this.options = service.guessOptions(this.rows);
+        this.render();
+    }
+
+    private renderMapping(options: CsvImportOptions) {
+        const { contentEl } = this;
+        const settings = this.plugin.settings;
+        const service = this.plugin.csvImportService;
+
+        contentEl.createEl('h2', { text: `Import ${this.fileName}` });
+
+        const columnCount = Math.max(...this.rows.slice(0, PREVIEW_ROWS + 1).map(row => row.length));
+        const header = options.hasHeader ? this.rows[0] : [];
+        const samples = this.rows.slice(options.hasHeader ? 1 : 0, 4);
+        const columnName = (i: number) => header[i] || `Column ${i + 1}`;
+        const columnOptions = (dropdown: DropdownComponent) => {
+            for (let i = 0; i < columnCount; i++) dropdown.addOption(String(i), columnName(i));
+        };
+        const update = () => this.render();
+
+        new Setting(contentEl)
+            .setName('First Row Is a Header')
+            .addToggle(toggle => toggle
+                .setValue(options.hasHeader)
+                .onChange(value => {
+                    options.hasHeader = value;
+                    update();
+                }));
+
+        new Setting(contentEl)
+            .setName('Date Column')
+            .addDropdown(dropdown => {
+                columnOptions(dropdown);
+                dropdown
+                    .setValue(String(options.dateColumn))
+                    .onChange(value => {
+                        options.dateColumn = Number(value);
+                        delete options.columns[options.dateColumn];
+                        options.dateFormat = service.findDateFormat(
+                            this.rows.slice(options.hasHeader ? 1 : 0, 21).map(row => row[options.dateColumn] || '')
+                        ) || options.dateFormat;
+                        update();
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('Date Format')
+            .setDesc(`Moment.js format such as YYYY-MM-DD or D/M/YYYY, or "${ISO_DATE_FORMAT}". A time after the date is read as well.`)
+            .addText(text => {
+                text.setValue(options.dateFormat);
+                // Re-render when editing is done, not on every keystroke
+                text.inputEl.addEventListener('change', () => {
+                    options.dateFormat = text.getValue().trim() || ISO_DATE_FORMAT;
+                    update();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Time Column')
+            .addDropdown(dropdown => {
+                dropdown.addOption('-1', 'None, or in the date column');
+                columnOptions(dropdown);
+                dropdown
+                    .setValue(String(options.timeColumn))
+                    .onChange(value => {
+                        options.timeColumn = Number(value);
+                        delete options.columns[options.timeColumn];
+                        update();
+                    });
+            });
+
+        if (settings.users.length > 0) {
+            new Setting(contentEl)
+                .setName('User')
+                .setDesc('Import every row for one user, or read the user name from a column')
+                .addDropdown(dropdown => {
+                    settings.users.forEach(user => dropdown.addOption(`user:${user.id}`, user.name));
+                    for (let i = 0; i < columnCount; i++) dropdown.addOption(`column:${i}`, `From ${columnName(i)}`);
+                    dropdown
+                        .setValue(options.userColumn >= 0 ? `column:${options.userColumn}` : `user:${options.userId}`)
+                        .onChange(value => {
+                            const separator = value.indexOf(':');
+                            const kind = value.slice(0, separator);
+                            const id = value.slice(separator + 1);
+                            if (kind === 'column') {
+                                options.userColumn = Number(id);
+                                delete options.columns[options.userColumn];
+                            } else {
+                                options.userColumn = -1;
+                                options.userId = id;
+                            }
+                            update();
+                        });
+                });
+        }
+
+        new Setting(contentEl)
+            .setName('Decimal Separator')
+            .addDropdown(dropdown => dropdown
+                .addOption('.', 'Point (81.4)')
+                .addOption(',', 'Comma (81,4)')
+                .setValue(options.decimalSeparator)
+                .onChange(value => {
+                    options.decimalSeparator = value as DecimalSeparator;
+                    update();
+                }));
+
+        contentEl.createEl('h3', { text: 'Columns' });
+        const measurements = settings.measurements.filter(m => !m.formula);
+        for (let i = 0; i < columnCount; i++) {
+            if ([options.dateColumn, options.timeColumn, options.userColumn].includes(i)) continue;
+
+            const mapping = options.columns[i];
+            const measurement = measurements.find(m => m.name === mapping?.measurement);
+            const setting = new Setting(contentEl)
+                .setName(columnName(i))
+                .setDesc(samples.map(row => row[i] || '–').join(', '))
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Skip');
+                    measurements.forEach(m => dropdown.addOption(m.name, m.name));
+                    dropdown
+                        .setValue(mapping?.measurement || '')
+                        .onChange(value => {
+                            if (value) {
+                                options.columns[i] = { measurement: value, unit: '' };
+                            } else {
+                                delete options.columns[i];
+                            }
+                            update();
+                        });
+                });
+
+            const units = measurement ? service.getUnits(measurement) : [];
+            if (mapping && units.length > 0) {
+                setting.addDropdown(dropdown => {
+                    dropdown.addOption('', "User's unit");
+                    units.forEach(unit => dropdown.addOption(unit, unit));
+                    dropdown
+                        .setValue(mapping.unit)
+                        .onChange(value => {
+                            mapping.unit = value;
+                            update();
+                        });
+                });
+            }
+        }
+
+        const result = service.buildRecords(this.rows, options);
+        this.renderPreview(result);
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Back')
+                .onClick(() => {
+                    this.options = undefined;
+                    this.render();
+                }))
+            .addButton(btn => btn
+                .setButtonText(`Import ${result.values} value${result.values === 1 ? '' : 's'}`)
+                .setCta()
+                .setDisabled(result.records.length === 0)
+                .onClick(async () => {
+                    if (this.importing) return;
+                    this.importing = true;
+                    btn.setDisabled(true);
+                    btn.setButtonText('Importing...');
+
+                    try {
+                        // Same paths as saving from the modal, each file is read and written once
+                        await this.plugin.writeRecords(result.records, false);
+                        const skipped = result.duplicates > 0 ? `, skipped ${result.duplicates} already recorded` : '';
+                        new Notice(`Imported ${result.values} value${result.values === 1 ? '' : 's'} from ${this.fileName}${skipped}`);
+                        this.close();
+                    } catch (error) {
+                        console.error('CSV import failed:', error);
+                        new Notice('Import failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+                        btn.setDisabled(false);
+                        btn.setButtonText(`Import ${result.values} value${result.values === 1 ? '' : 's'}`);
+                    } finally {
+                        this.importing = false;
+                    }
+                }));
+    }
+
+    private renderPreview(result: CsvImportResult) {
+        const { contentEl } = this;
+        const settings = this.plugin.settings;
+
+        contentEl.createEl('h3', { text: 'Preview' });
+
+        const summary = [`${result.values} value${result.values === 1 ? '' : 's'} in ${result.records.length} record${result.records.length === 1 ? '' : 's'}`];
+        if (result.duplicates > 0) summary.push(`${result.duplicates} already recorded`);
+        if (result.errors.length > 0) summary.push(`${result.errors.length} skipped`);
+        contentEl.createEl('p', { text: summary.join(', ') });
+
+        if (result.errors.length > 0) {
+            const errorsEl = contentEl.createEl('details');
+            errorsEl.createEl('summary', { text: 'Skipped rows' });
+            const list = errorsEl.createEl('ul');
+            result.errors.slice(0, 50).forEach(error => list.createEl('li', { text: error }));
+            if (result.errors.length > 50) list.createEl('li', { text: `and ${result.errors.length - 50} more` });
+        }
+
+        if (result.records.length === 0) return;
+
+        const measurements = settings.measurements
+            .filter(m => result.records.some(record => record[m.name] !== undefined));
+        const table = contentEl.createEl('table', { cls: 'body-tracker-import-preview' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        ['Date', ...(settings.users.length > 1 ? ['User'] : []), ...measurements.map(m => m.name)]
+            .forEach(text => headerRow.createEl('th', { text }));
+
+        const body = table.createEl('tbody');
+        result.records.slice(0, PREVIEW_ROWS).forEach(record => {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: record.date });
+            if (settings.users.length > 1) {
+                row.createEl('td', { text: settings.users.find(u => u.id === record.userId)?.name || '' });
+            }
+            measurements.forEach(m => row.createEl('td', { text: record[m.name] ?? '' }));
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
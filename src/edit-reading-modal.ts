@@ -0,0 +1,71 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { IndexedMeasurement } from './services/measurement-index';
+
+/**
+ * Change the value of a past reading, or delete it after confirming
+ */
+export class EditReadingModal extends Modal {
+    private value: string;
+    private confirmingDelete = false;
+
+    constructor(
+        app: App,
+        private reading: IndexedMeasurement,
+        private onSave: (value: number) => Promise<void>,
+        private onDelete: () => Promise<void>
+    ) {
+        super(app);
+        this.value = String(reading.value);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: `Edit ${this.reading.measurement}` });
+        contentEl.createEl('p', {
+            text: `${this.reading.date} · ${this.reading.user}. Changes are applied to the measurement file, body note and journal.`,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('Value')
+            .setDesc(this.reading.unit ? `In ${this.reading.unit}` : '')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.step = 'any';
+                text.setValue(this.value)
+                    .onChange(value => this.value = value);
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText(this.confirmingDelete ? 'Confirm Delete' : 'Delete')
+                .setWarning()
+                .onClick(async () => {
+                    if (!this.confirmingDelete) {
+                        this.confirmingDelete = true;
+                        this.onOpen();
+                        return;
+                    }
+                    await this.onDelete();
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(async () => {
+                    const value = parseFloat(this.value);
+                    if (isNaN(value)) {
+                        new Notice('Please enter a number');
+                        return;
+                    }
+                    await this.onSave(value);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
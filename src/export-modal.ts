@@ -0,0 +1,161 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions } from './services/export-service';
+import { FolderSuggest } from './filesuggester';
+
+/**
+ * Choose the format, user, date range and measurements of an export and where to save it
+ */
+export class ExportModal extends Modal {
+    private format: ExportFormat = 'csv';
+    private userId = '';
+    private startDate = '';
+    private endDate = '';
+    private measurements: Set<string>;
+    private folder: string;
+
+    constructor(app: App, private plugin: BodyTrackerPlugin) {
+        super(app);
+        this.measurements = new Set(plugin.settings.measurements.map(m => m.name));
+        this.folder = plugin.settings.exportFolder;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const settings = this.plugin.settings;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Export Measurements' });
+
+        new Setting(contentEl)
+            .setName('Format')
+            .addDropdown(dropdown => {
+                (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+                    .forEach(format => dropdown.addOption(format, EXPORT_FORMATS[format].label));
+                dropdown
+                    .setValue(this.format)
+                    .onChange(value => this.format = value as ExportFormat);
+            });
+
+        if (settings.users.length > 1) {
+            new Setting(contentEl)
+                .setName('User')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'All users');
+                    settings.users.forEach(user => dropdown.addOption(user.id, user.name));
+                    dropdown
+                        .setValue(this.userId)
+                        .onChange(value => this.userId = value);
+                });
+        }
+
+        new Setting(contentEl)
+            .setName('Start Date')
+            .setDesc('Leave empty to export from the first reading')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.startDate)
+                    .onChange(value => this.startDate = value);
+            });
+
+        new Setting(contentEl)
+            .setName('End Date')
+            .setDesc('Leave empty to export up to the latest reading')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.endDate)
+                    .onChange(value => this.endDate = value);
+            });
+
+        contentEl.createEl('h3', { text: 'Measurements' });
+        settings.measurements.forEach(measurement => {
+            new Setting(contentEl)
+                .setName(measurement.name)
+                .addToggle(toggle => toggle
+                    .setValue(this.measurements.has(measurement.name))
+                    .onChange(value => {
+                        if (value) {
+                            this.measurements.add(measurement.name);
+                        } else {
+                            this.measurements.delete(measurement.name);
+                        }
+                    }));
+        });
+
+        new Setting(contentEl)
+            .setName('Vault Folder')
+            .setDesc('Where "Save to Vault" writes the export')
+            .addText(text => {
+                new FolderSuggest(this.app, text.inputEl);
+                text.setPlaceholder('Exports')
+                    .setValue(this.folder)
+                    .onChange(value => this.folder = value.trim());
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Save As...')
+                .onClick(() => {
+                    const options = this.getOptions();
+                    if (!options) return;
+                    this.plugin.exportService.saveAs(options);
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Save to Vault')
+                .setCta()
+                .onClick(async () => {
+                    const options = this.getOptions();
+                    if (!options) return;
+
+                    try {
+                        const file = await this.plugin.exportService.writeToVault(this.folder, options);
+                        if (settings.exportFolder !== this.folder) {
+                            settings.exportFolder = this.folder;
+                            await this.plugin.saveSettings();
+                        }
+                        new Notice(`Exported measurements to ${file.path}`);
+                        this.close();
+                    } catch (error) {
+                        console.error('Export failed:', error);
+                        new Notice('Export failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+                    }
+                }));
+    }
+
+    /**
+     * The chosen options, or undefined after telling the user what's missing
+     */
+    private getOptions(): ExportOptions | undefined {
+        const moment = (window as any).moment;
+        const start = this.startDate ? moment(this.startDate, 'YYYY-MM-DD', true) : undefined;
+        const end = this.endDate ? moment(this.endDate, 'YYYY-MM-DD', true).endOf('day') : undefined;
+
+        if ((start && !start.isValid()) || (end && !end.isValid()) || (start && end && end.isBefore(start))) {
+            new Notice('Please choose a valid date range');
+            return undefined;
+        }
+        if (this.measurements.size === 0) {
+            new Notice('Please choose at least one measurement');
+            return undefined;
+        }
+
+        const options: ExportOptions = {
+            format: this.format,
+            measurements: this.plugin.settings.measurements.map(m => m.name).filter(name => this.measurements.has(name)),
+            userId: this.userId || undefined,
+            from: start?.valueOf(),
+            to: end?.valueOf()
+        };
+
+        if (this.plugin.exportService.getRows(options).length === 0) {
+            new Notice('No measurements match the export options');
+            return undefined;
+        }
+        return options;
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,304 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import { DEFAULT_METRIC_MAPPING, HEALTH_METRIC_LABELS, HealthFileImporter, HealthMetric, ImportedSample } from './services/health-source';
+
+/**
+ * Import a provider's export files: scan them, then choose the date range,
+ * the apps and devices to take readings from and the user they belong to
+ */
+export class HealthImportModal extends Modal {
+    private samples?: ImportedSample[];
+    private fileName = '';
+    private startDate = '';
+    private endDate = '';
+    private sources = new Set<string>();
+    private userId: string;
+    private summaryEl?: HTMLElement;
+    private cancelled = false;
+    private running = false;
+
+    constructor(app: App, private plugin: BodyTrackerPlugin, private importer: HealthFileImporter) {
+        super(app);
+        this.userId = plugin.syncService.getUserForSource(importer.id);
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    private render() {
+        this.contentEl.empty();
+        if (!this.samples) {
+            this.renderSource();
+        } else {
+            this.renderReview(this.samples);
+        }
+    }
+
+    private renderSource() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: `Import from ${this.importer.name}` });
+        contentEl.createEl('p', { text: this.importer.instructions });
+
+        const progressEl = contentEl.createEl('progress', { cls: 'body-tracker-progress' });
+        progressEl.max = 1;
+        progressEl.value = 0;
+        progressEl.hide();
+        const statusEl = contentEl.createDiv({ cls: 'body-tracker-progress-status' });
+
+        const scan = async (fileName: string, read: () => Promise<Array<{ name: string, data: Blob }>>) => {
+            if (this.running) return;
+            this.running = true;
+            this.cancelled = false;
+            progressEl.show();
+            statusEl.setText(`Reading ${fileName}...`);
+
+            try {
+                const samples = await this.importer.scan(await read(), {
+                    onProgress: (name, done, total) => {
+                        progressEl.max = total;
+                        progressEl.value = done;
+                        statusEl.setText(`Reading ${name}: ${Math.round(done / total * 100)}%`);
+                    },
+                    isCancelled: () => this.cancelled
+                });
+                if (this.cancelled) return;
+
+                if (samples.length === 0) {
+                    statusEl.setText('No body measurements found in this export');
+                    progressEl.hide();
+                    return;
+                }
+
+                this.fileName = fileName;
+                this.samples = samples;
+                this.sources = new Set(samples.map(sample => sample.sourceName));
+                this.startDate = this.formatDate(samples[0].timestamp);
+                this.endDate = this.formatDate(samples[samples.length - 1].timestamp);
+                this.render();
+            } catch (error) {
+                console.error(`${this.importer.name} import failed:`, error);
+                statusEl.setText('Could not read the export: ' + (error instanceof Error ? error.message : 'Unknown error'));
+                progressEl.hide();
+            } finally {
+                this.running = false;
+            }
+        };
+
+        const vaultFiles = this.app.vault.getFiles()
+            .filter(file => this.importer.extensions.includes(file.extension))
+            .sort((a, b) => a.path.localeCompare(b.path));
+        let selected = vaultFiles.find(file => /export/i.test(file.name))?.path || vaultFiles[0]?.path || '';
+
+        new Setting(contentEl)
+            .setName('Vault File')
+            .setDesc(vaultFiles.length > 0 ? 'An export in this vault' : 'No export files in this vault')
+            .addDropdown(dropdown => {
+                vaultFiles.forEach(file => dropdown.addOption(file.path, file.path));
+                dropdown
+                    .setValue(selected)
+                    .onChange(value => selected = value);
+            })
+            .addButton(btn => btn
+                .setButtonText('Open')
+                .setDisabled(vaultFiles.length === 0)
+                .onClick(() => {
+                    const file = this.app.vault.getAbstractFileByPath(selected);
+                    if (file instanceof TFile) {
+                        scan(file.name, async () => [{ name: file.name, data: new Blob([await this.app.vault.readBinary(file)]) }]);
+                    }
+                }));
+
+        new Setting(contentEl)
+            .setName('File on Disk')
+            .setDesc('One or more export files anywhere on this device')
+            .addButton(btn => btn
+                .setButtonText('Choose Files...')
+                .setCta()
+                .onClick(() => {
+                    const input = document.createElement('input');
+                    input.type = 'file';
+                    input.multiple = true;
+                    input.accept = this.importer.extensions.map(extension => `.${extension}`).join(',');
+                    input.addEventListener('change', () => {
+                        const files = Array.from(input.files || []);
+                        if (files.length === 0) return;
+                        const name = files.length === 1 ? files[0].name : `${files.length} files`;
+                        scan(name, async () => files.map(file => ({ name: file.name, data: file })));
+                    });
+                    input.click();
+                }));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => {
+                    this.cancelled = true;
+                    if (!this.running) this.close();
+                }));
+    }
+
+    private renderReview(samples: ImportedSample[]) {
+        const { contentEl } = this;
+        const settings = this.plugin.settings;
+
+        contentEl.createEl('h2', { text: `Import ${this.fileName}` });
+
+        // What each metric in the export is recorded as
+        const metrics = Array.from(new Set(samples.map(sample => sample.metric)));
+        const targets = metrics.map(metric => {
+            const name = settings.metricMapping?.[metric] ?? DEFAULT_METRIC_MAPPING[metric];
+            const mapped = !!name && settings.measurements.some(m => m.name === name);
+            const count = samples.filter(sample => sample.metric === metric).length;
+            return `${HEALTH_METRIC_LABELS[metric]}: ${count} → ${mapped ? name : 'not imported, map it under Provider Mapping'}`;
+        });
+        const list = contentEl.createEl('ul');
+        targets.forEach(text => list.createEl('li', { text }));
+
+        new Setting(contentEl)
+            .setName('Start Date')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.startDate)
+                    .onChange(value => {
+                        this.startDate = value;
+                        this.updateSummary();
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('End Date')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.endDate)
+                    .onChange(value => {
+                        this.endDate = value;
+                        this.updateSummary();
+                    });
+            });
+
+        if (settings.users.length > 0) {
+            new Setting(contentEl)
+                .setName('User')
+                .setDesc(`Link a profile to ${this.importer.name} to make it the default`)
+                .addDropdown(dropdown => {
+                    settings.users.forEach(user => dropdown.addOption(user.id, user.name));
+                    dropdown
+                        .setValue(this.userId)
+                        .onChange(value => this.userId = value);
+                });
+        }
+
+        contentEl.createEl('h3', { text: 'Apps and Devices' });
+        const counts = new Map<string, number>();
+        samples.forEach(sample => counts.set(sample.sourceName, (counts.get(sample.sourceName) || 0) + 1));
+        Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .forEach(([source, count]) => {
+                new Setting(contentEl)
+                    .setName(source)
+                    .setDesc(`${count} reading${count === 1 ? '' : 's'}`)
+                    .addToggle(toggle => toggle
+                        .setValue(this.sources.has(source))
+                        .onChange(value => {
+                            if (value) {
+                                this.sources.add(source);
+                            } else {
+                                this.sources.delete(source);
+                            }
+                            this.updateSummary();
+                        }));
+            });
+
+        this.summaryEl = contentEl.createDiv({ cls: 'body-tracker-progress-status' });
+        this.updateSummary();
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Back')
+                .onClick(() => {
+                    this.samples = undefined;
+                    this.render();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Import')
+                .setCta()
+                .onClick(async () => {
+                    if (this.running) return;
+                    const selected = this.getSelected();
+                    if (!selected) return;
+
+                    this.running = true;
+                    btn.setDisabled(true);
+                    btn.setButtonText('Importing...');
+                    try {
+                        // Readings already imported are skipped through the sync ledger
+                        const imported = await this.plugin.syncService.importSamples(
+                            this.importer.id,
+                            this.userId,
+                            selected.map(({ metric, timestamp, value }) => ({ metric, timestamp, value }))
+                        );
+                        new Notice(imported > 0
+                            ? `Imported ${imported} measurement${imported === 1 ? '' : 's'} from ${this.importer.name}`
+                            : `No new measurements from ${this.importer.name}`);
+                        this.close();
+                    } catch (error) {
+                        console.error(`${this.importer.name} import failed:`, error);
+                        new Notice('Import failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+                        btn.setDisabled(false);
+                        btn.setButtonText('Import');
+                    } finally {
+                        this.running = false;
+                    }
+                }));
+    }
+
+    /**
+     * Samples in the chosen date range from the chosen sources, or undefined after telling the user what's wrong
+     */
+    private getSelected(notify = true): ImportedSample[] | undefined {
+        const moment = (window as any).moment;
+        const start = moment(this.startDate, 'YYYY-MM-DD', true);
+        const end = moment(this.endDate, 'YYYY-MM-DD', true).endOf('day');
+
+        if (!start.isValid() || !end.isValid() || end.isBefore(start)) {
+            if (notify) new Notice('Please choose a valid date range');
+            return undefined;
+        }
+
+        const mapped = (metric: HealthMetric) => {
+            const name = this.plugin.settings.metricMapping?.[metric] ?? DEFAULT_METRIC_MAPPING[metric];
+            return !!name && this.plugin.settings.measurements.some(m => m.name === name);
+        };
+        const selected = (this.samples || []).filter(sample =>
+            this.sources.has(sample.sourceName)
+            && mapped(sample.metric)
+            && sample.timestamp >= start.unix()
+            && sample.timestamp <= end.unix());
+
+        if (selected.length === 0) {
+            if (notify) new Notice('No readings match the date range and sources');
+            return undefined;
+        }
+        return selected;
+    }
+
+    private updateSummary() {
+        if (!this.summaryEl) return;
+
+        const selected = this.getSelected(false);
+        this.summaryEl.setText(selected
+            ? `${selected.length} reading${selected.length === 1 ? '' : 's'} selected`
+            : 'No readings selected');
+    }
+
+    private formatDate(timestamp: number): string {
+        return (window as any).moment(timestamp * 1000).format('YYYY-MM-DD');
+    }
+
+    onClose() {
+        // Stop a scan in progress when the modal is dismissed
+        this.cancelled = true;
+        this.contentEl.empty();
+    }
+}
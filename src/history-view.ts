@@ -0,0 +1,174 @@
+import { ItemView, Notice, WorkspaceLeaf, setIcon } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { IndexedMeasurement } from './services/measurement-index';
+import { EditReadingModal } from './edit-reading-modal';
+
+export const VIEW_TYPE_HISTORY = 'body-tracker-history';
+
+type SortColumn = 'date' | 'user' | 'measurement' | 'value';
+
+const COLUMNS: Array<{ key: SortColumn, label: string }> = [
+    { key: 'date', label: 'Date' },
+    { key: 'user', label: 'User' },
+    { key: 'measurement', label: 'Measurement' },
+    { key: 'value', label: 'Value' }
+];
+
+const PAGE_SIZE = 100;
+
+export class HistoryView extends ItemView {
+    private userId = '';
+    private measurement = '';
+    private sortColumn: SortColumn = 'date';
+    private sortAscending = false;
+    private limit = PAGE_SIZE;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: BodyTrackerPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_HISTORY;
+    }
+
+    getDisplayText(): string {
+        return 'Measurement History';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.plugin.measurementIndex.on('changed', () => this.render()));
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('body-tracker-history-view');
+
+        // Filters
+        const controls = contentEl.createDiv({ cls: 'body-tracker-chart-controls' });
+
+        const userSelect = controls.createEl('select', { cls: 'dropdown' });
+        userSelect.createEl('option', { text: 'All users', value: '' });
+        this.plugin.settings.users.forEach(user => userSelect.createEl('option', { text: user.name, value: user.id }));
+        userSelect.value = this.userId;
+        userSelect.addEventListener('change', () => {
+            this.userId = userSelect.value;
+            this.limit = PAGE_SIZE;
+            this.render();
+        });
+
+        const measurementSelect = controls.createEl('select', { cls: 'dropdown' });
+        measurementSelect.createEl('option', { text: 'All measurements', value: '' });
+        this.plugin.settings.measurements.forEach(m => measurementSelect.createEl('option', { text: m.name, value: m.name }));
+        measurementSelect.value = this.measurement;
+        measurementSelect.addEventListener('change', () => {
+            this.measurement = measurementSelect.value;
+            this.limit = PAGE_SIZE;
+            this.render();
+        });
+
+        const readings = this.getSortedReadings();
+        controls.createSpan({
+            cls: 'body-tracker-history-count',
+            text: `${readings.length} reading${readings.length === 1 ? '' : 's'}`
+        });
+
+        if (readings.length === 0) {
+            contentEl.createDiv({ cls: 'body-tracker-chart-empty', text: 'No measurements recorded yet' });
+            return;
+        }
+
+        // Table
+        const table = contentEl.createEl('table', { cls: 'body-tracker-history-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        COLUMNS.forEach(column => {
+            const th = headerRow.createEl('th', { text: column.label });
+            if (column.key === this.sortColumn) {
+                th.appendText(this.sortAscending ? ' ▲' : ' ▼');
+            }
+            th.addEventListener('click', () => {
+                this.sortAscending = column.key === this.sortColumn ? !this.sortAscending : column.key !== 'date';
+                this.sortColumn = column.key;
+                this.render();
+            });
+        });
+        headerRow.createEl('th');
+
+        const body = table.createEl('tbody');
+        readings.slice(0, this.limit).forEach(reading => {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: reading.date });
+            row.createEl('td', { text: reading.user });
+            row.createEl('td', { text: reading.measurement });
+            row.createEl('td', { text: reading.unit ? `${reading.value} ${reading.unit}` : String(reading.value) });
+
+            const actions = row.createEl('td', { cls: 'body-tracker-history-actions' });
+            const editButton = actions.createEl('button', { attr: { 'aria-label': 'Edit or delete' } });
+            setIcon(editButton, 'pencil');
+            editButton.addEventListener('click', () => this.editReading(reading));
+        });
+
+        if (readings.length > this.limit) {
+            const moreButton = contentEl.createEl('button', { text: 'Show more' });
+            moreButton.addEventListener('click', () => {
+                this.limit += PAGE_SIZE;
+                this.render();
+            });
+        }
+    }
+
+    private getSortedReadings(): IndexedMeasurement[] {
+        const readings = this.plugin.measurementIndex.getReadings({
+            userId: this.userId || undefined,
+            measurement: this.measurement || undefined
+        });
+
+        const direction = this.sortAscending ? 1 : -1;
+        return readings.sort((a, b) => {
+            switch (this.sortColumn) {
+                case 'date':
+                    return (a.timestamp - b.timestamp) * direction;
+                case 'value':
+                    return (a.value - b.value) * direction;
+                default:
+                    return a[this.sortColumn].localeCompare(b[this.sortColumn]) * direction;
+            }
+        });
+    }
+
+    private editReading(reading: IndexedMeasurement) {
+        const history = this.plugin.historyService;
+
+        new EditReadingModal(
+            this.app,
+            reading,
+            async (value) => {
+                try {
+                    const changed = await history.updateReading(reading, value);
+                    new Notice(`Updated ${reading.measurement} in ${changed} place${changed === 1 ? '' : 's'}`);
+                } catch (error) {
+                    console.error('Failed to update measurement:', error);
+                    new Notice('Failed to update measurement. Check the console for details.');
+                }
+            },
+            async () => {
+                try {
+                    const removed = await history.deleteReading(reading);
+                    new Notice(`Deleted ${reading.measurement} from ${removed} place${removed === 1 ? '' : 's'}`);
+                } catch (error) {
+                    console.error('Failed to delete measurement:', error);
+                    new Notice('Failed to delete measurement. Check the console for details.');
+                }
+            }
+        ).open();
+    }
+}
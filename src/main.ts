@@ -1,36 +1,147 @@
-import { Plugin, addIcon, Modal, Notice } from 'obsidian';
+import { Plugin, addIcon, Modal, Notice, ObsidianProtocolData } from 'obsidian';
 import { MeasurementModal } from './modal';
+import { BackfillModal } from './backfill-modal';
+import { QuickRecordModal } from './quick-record-modal';
+import { QuickEntryModal } from './quick-entry-modal';
+import { ConfirmEntryModal } from './confirm-entry-modal';
+import { StatusBar } from './status-bar';
+import { ReminderModal } from './reminder-modal';
+import { ExportModal } from './export-modal';
+import { CsvImportModal } from './csv-import-modal';
+import { HealthImportModal } from './health-import-modal';
 import { BodyTrackerSettingsTab } from './settings';
 import { MeasurementService } from './services/measurement-service';
 import { JournalService } from './services/journal-service';
 import { GoogleFitService } from './services/googlefit';
+import { WithingsService } from './services/withings';
 import { StyleManager } from './services/style-manager';
-import { MeasurementType, Settings, DEFAULT_SETTINGS, MeasurementRecord } from './types';
+import { SyncService } from './services/sync-service';
+import { UnitMigrationService } from './services/migration-service';
+import { DerivedMeasurementService } from './services/derived-service';
+import { MeasurementIndex } from './services/measurement-index';
+import { HistoryService } from './services/history-service';
+import { GoalService } from './services/goal-service';
+import { TrendService } from './services/trend-service';
+import { QuickEntryService } from './services/quick-entry-service';
+import { ReminderService } from './services/reminder-service';
+import { ExportService } from './services/export-service';
+import { AppleHealthImporter } from './services/apple-health';
+import { GoogleTakeoutImporter } from './services/google-takeout';
+import { HealthConnectImporter } from './services/health-connect';
+import { CsvImportService } from './services/csv-import-service';
+import { ChartView, VIEW_TYPE_CHART } from './chart-view';
+import { HistoryView, VIEW_TYPE_HISTORY } from './history-view';
+import { BodyTrackerBlock, CODE_BLOCK_LANGUAGE } from './code-block';
+import type { HealthSource } from './services/health-source';
+import { getDisplayUnit, getUnitForType } from './units';
+import { Measurement, MeasurementType, Settings, DEFAULT_SETTINGS, MeasurementRecord } from './types';
 
 export default class BodyTrackerPlugin extends Plugin {
     settings!: Settings;
     measurementService!: MeasurementService;
     journalService!: JournalService;
     styleManager!: StyleManager;
+    syncService!: SyncService;
+    migrationService!: UnitMigrationService;
+    derivedService!: DerivedMeasurementService;
+    measurementIndex!: MeasurementIndex;
+    historyService!: HistoryService;
+    goalService!: GoalService;
+    trendService!: TrendService;
+    quickEntryService!: QuickEntryService;
+    reminderService!: ReminderService;
+    exportService!: ExportService;
+    csvImportService!: CsvImportService;
     googleFitService?: GoogleFitService;
-    googleFitSyncInterval?: number;
+    withingsService?: WithingsService;
+    private measurementCommandIds: string[] = [];
+    private measurementCommandNames = '';
+    private statusBar?: StatusBar;
+    private ribbonIconEl?: HTMLElement;
 
     async onload() {
         console.log('Body Tracker: Loading Plugin');
         await this.loadSettings();
 
         // Initialize services
-        this.measurementService = new MeasurementService(this.app, this.settings);
+        this.measurementIndex = new MeasurementIndex(this.app, this.settings);
+        this.trendService = new TrendService(this.settings, this.measurementIndex);
+        this.measurementService = new MeasurementService(this.app, this.settings, this.measurementIndex, this.trendService);
         this.journalService = new JournalService(this.app, this.settings);
+        this.syncService = new SyncService(
+            this.settings,
+            (records) => this.writeRecords(records, false),
+            () => this.saveData(this.settings)
+        );
+        this.migrationService = new UnitMigrationService(this.app, this.settings, this.measurementService);
+        this.derivedService = new DerivedMeasurementService(this.settings);
+        this.historyService = new HistoryService(this.app, this.settings, this.measurementIndex, this.measurementService);
+        this.goalService = new GoalService(
+            this.settings,
+            this.measurementIndex,
+            this.journalService,
+            this.trendService,
+            () => this.saveSettings()
+        );
+        this.quickEntryService = new QuickEntryService(this.settings);
+        this.reminderService = new ReminderService(
+            this.settings,
+            this.measurementIndex,
+            this.journalService,
+            () => this.saveSettings()
+        );
+        this.exportService = new ExportService(this.app, this.settings, this.measurementIndex);
+        this.csvImportService = new CsvImportService(this.settings, this.measurementIndex);
         this.styleManager = new StyleManager();
         // Set initial icon from settings
         this.styleManager.setCustomIcon(this.settings.taskSvgIcon || '');
         this.styleManager.updateStyles(this.settings);
         await this.setupGoogleFitService();
+        this.setupWithingsService();
 
         // Add settings tab
         this.addSettingTab(new BodyTrackerSettingsTab(this.app, this));
 
+        // Chart and history views, fed by the measurement index once the vault is loaded
+        this.registerView(VIEW_TYPE_CHART, (leaf) => new ChartView(leaf, this));
+        this.registerView(VIEW_TYPE_HISTORY, (leaf) => new HistoryView(leaf, this));
+        this.app.workspace.onLayoutReady(() => {
+            // Reminders need the index to know what was recorded
+            this.measurementIndex.rebuild()
+                .then(() => this.checkReminders())
+                .catch(error => console.error('Failed to index measurements:', error));
+            this.registerInterval(window.setInterval(() => this.checkReminders(), 30 * 60 * 1000));
+
+            // Latest values in the status bar, refreshed whenever saved or synced readings are indexed
+            this.statusBar = new StatusBar(this, this.addStatusBarItem());
+            this.registerEvent(this.measurementIndex.on('changed', () => this.statusBar?.update()));
+            // "today" becomes "yesterday" without any new readings
+            this.registerInterval(window.setInterval(() => this.statusBar?.update(), 60 * 60 * 1000));
+
+            // Registered once the vault is loaded so startup doesn't fire a create event per file
+            this.registerEvent(this.app.vault.on('create', file => this.measurementIndex.updateFile(file)));
+            this.registerEvent(this.app.vault.on('modify', file => this.measurementIndex.updateFile(file)));
+            this.registerEvent(this.app.vault.on('delete', file => this.measurementIndex.removeFile(file.path)));
+            this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.measurementIndex.renameFile(file, oldPath)));
+        });
+
+        this.addCommand({
+            id: 'open-charts',
+            name: 'Open Measurement Charts',
+            callback: () => this.activateView(VIEW_TYPE_CHART)
+        });
+
+        // Live charts, tables and stats in any note
+        this.registerMarkdownCodeBlockProcessor(CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+            ctx.addChild(new BodyTrackerBlock(el, source, this));
+        });
+
+        this.addCommand({
+            id: 'open-history',
+            name: 'Open Measurement History',
+            callback: () => this.activateView(VIEW_TYPE_HISTORY)
+        });
+
         // Add command to record measurements
         this.addCommand({
             id: 'record-measurements',
@@ -41,11 +152,62 @@ export default class BodyTrackerPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'show-due-measurements',
+            name: 'Show Due Measurements',
+            callback: () => new ReminderModal(this.app, this, this.reminderService.getDue()).open()
+        });
+
+        this.addCommand({
+            id: 'quick-entry',
+            name: 'Quick Entry',
+            callback: () => new QuickEntryModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'export-measurements',
+            name: 'Export Measurements',
+            callback: () => new ExportModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'import-csv',
+            name: 'Import Measurements from CSV',
+            callback: () => new CsvImportModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'import-apple-health',
+            name: 'Import from Apple Health',
+            callback: () => new HealthImportModal(this.app, this, new AppleHealthImporter()).open()
+        });
+
+        this.addCommand({
+            id: 'import-google-takeout',
+            name: 'Import from Google Takeout',
+            callback: () => new HealthImportModal(this.app, this, new GoogleTakeoutImporter(this.csvImportService)).open()
+        });
+
+        this.addCommand({
+            id: 'import-health-connect',
+            name: 'Import from Health Connect',
+            callback: () => new HealthImportModal(this.app, this, new HealthConnectImporter()).open()
+        });
+
+        this.updateRibbonIcon();
+
+        // Log from phone shortcuts, e.g. obsidian://body-tracker?user=alice&Weight=81.4
+        this.registerObsidianProtocolHandler('body-tracker', params => this.handleLink(params));
+
+        // One "Record <measurement>" command per measurement, kept in sync with the settings
+        this.registerMeasurementCommands();
+
         // Add command to sync with Google Fit
         this.addCommands();
 
         // Setup automatic Google Fit sync if enabled
         this.setupGoogleFitSync();
+        this.setupWithingsSync();
     }
 
     onunload() {
@@ -54,10 +216,7 @@ export default class BodyTrackerPlugin extends Plugin {
         this.styleManager.removeStyles();
 
         // Clear any sync intervals
-        if (this.googleFitSyncInterval) {
-            window.clearInterval(this.googleFitSyncInterval);
-            this.googleFitSyncInterval = undefined;
-        }
+        this.syncService.clear();
 
         // Close OAuth server if it exists
         if (this.googleFitService?.oauthServer) {
@@ -68,14 +227,32 @@ export default class BodyTrackerPlugin extends Plugin {
             }
         }
 
-        // Clear the service reference but keep tokens for next load
+        if (this.withingsService?.oauthServer) {
+            try {
+                this.withingsService.oauthServer.close();
+            } catch (error) {
+                console.error('Error closing OAuth server:', error);
+            }
+        }
+
+        // Clear the service references but keep tokens for next load
         this.googleFitService = undefined;
+        this.withingsService = undefined;
     }
 
     async loadSettings() {
         const data = await this.loadData();
         this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
 
+        // Older versions only knew 'length' and 'weight', and typed body fat as a weight
+        this.settings.measurements.forEach(m => {
+            if ((m.type as string) === 'weight') {
+                const isPercentage = /fat\s*%|body fat|percent/i.test(m.name) && !/mass/i.test(m.name);
+                m.type = isPercentage ? 'percentage' : 'mass';
+                m.unit = isPercentage ? '%' : m.unit;
+            }
+        });
+
         // Preserve token state if we have a refresh token
         if (this.settings.googleRefreshToken) {
             // Keep the access token if it's not expired
@@ -92,10 +269,20 @@ export default class BodyTrackerPlugin extends Plugin {
             this.settings.googleTokenExpiry = undefined;
             this.settings.googleAuthState = undefined;
         }
+
+        // Withings access tokens are short-lived, so only the refresh token matters across reloads
+        if (!this.settings.withingsRefreshToken) {
+            this.settings.withingsAccessToken = '';
+            this.settings.withingsTokenExpiry = undefined;
+            this.settings.withingsAuthState = undefined;
+        }
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
+        this.registerMeasurementCommands();
+        this.statusBar?.update();
+        this.updateRibbonIcon();
 
         // Update styles whenever settings are saved
         this.styleManager.setCustomIcon(this.settings.taskSvgIcon || '');
@@ -117,10 +304,17 @@ export default class BodyTrackerPlugin extends Plugin {
         }
     }
 
-    getUnitForMeasurement(type: MeasurementType): { metric: string, imperial: string } {
-        return type === 'length'
-            ? { metric: 'cm', imperial: 'in' }
-            : { metric: 'kg', imperial: 'lbs' };
+    getUnitForMeasurement(measurement: Measurement | MeasurementType): { metric: string, imperial: string } {
+        if (typeof measurement === 'string') {
+            return {
+                metric: getUnitForType(measurement, 'metric', this.settings),
+                imperial: getUnitForType(measurement, 'imperial', this.settings)
+            };
+        }
+        return {
+            metric: getDisplayUnit(measurement, this.settings, 'metric'),
+            imperial: getDisplayUnit(measurement, this.settings, 'imperial')
+        };
     }
 
     setupGoogleFitService() {
@@ -138,51 +332,42 @@ export default class BodyTrackerPlugin extends Plugin {
                     'https://www.googleapis.com/auth/fitness.body.read',
                     'https://www.googleapis.com/auth/fitness.body.write'
                 ],
-                onSettingsChange: async (settings) => {
-                    // Update our settings
-                    this.settings = settings;
-
-                    // Save settings to disk
-                    await this.saveData(this.settings);
-
-                    // Update any open settings tabs immediately
-                    const settingsLeaf = this.app.workspace.getLeavesOfType('settings')[0];
-                    if (settingsLeaf) {
-                        const settingsTab = settingsLeaf.view;
-                        const tab = (settingsTab as any)?.tabContentContainer?.children?.['body-tracker'];
-                        if (tab) {
-                            requestAnimationFrame(() => {
-                                tab.display();
-                            });
-                        }
-                    }
-                },
+                onSettingsChange: (settings) => this.handleServiceSettingsChange(settings),
                 app: this.app
             });
 
             this.setupGoogleFitSync();
         } else {
             this.googleFitService = undefined;
-            if (this.googleFitSyncInterval) {
-                window.clearInterval(this.googleFitSyncInterval);
-                this.googleFitSyncInterval = undefined;
-            }
+            this.syncService.unschedule('google-fit');
         }
     }
 
-    setupGoogleFitSync() {
-        // Clear existing interval if any
-        if (this.googleFitSyncInterval) {
-            window.clearInterval(this.googleFitSyncInterval);
-            this.googleFitSyncInterval = undefined;
+    private async handleServiceSettingsChange(settings: Settings): Promise<void> {
+        // Update our settings
+        this.settings = settings;
+
+        // Save settings to disk
+        await this.saveData(this.settings);
+
+        // Update any open settings tabs immediately
+        const settingsLeaf = this.app.workspace.getLeavesOfType('settings')[0];
+        if (settingsLeaf) {
+            const settingsTab = settingsLeaf.view;
+            const tab = (settingsTab as any)?.tabContentContainer?.children?.['body-tracker'];
+            if (tab) {
+                requestAnimationFrame(() => {
+                    tab.display();
+                });
+            }
         }
+    }
 
-        // Set up new sync interval if enabled
-        if (this.settings.enableGoogleFit && this.settings.googleAutoSyncInterval > 0) {
-            this.googleFitSyncInterval = window.setInterval(
-                () => this.syncGoogleFit(),
-                this.settings.googleAutoSyncInterval * 60 * 1000 // Convert minutes to milliseconds
-            );
+    setupGoogleFitSync() {
+        if (this.settings.enableGoogleFit && this.googleFitService) {
+            this.syncService.schedule(this.googleFitService, this.settings.googleAutoSyncInterval);
+        } else {
+            this.syncService.unschedule('google-fit');
         }
     }
 
@@ -191,75 +376,254 @@ export default class BodyTrackerPlugin extends Plugin {
             return;
         }
 
-        try {
-            // Get measurements from the last 7 days relative to current time
-            const now = Math.floor(new Date().getTime() / 1000);
-            const sevenDaysAgo = now - (7 * 24 * 60 * 60);
-
-            const measurements = await this.googleFitService.getMeasurements(sevenDaysAgo, now);
-
-            // Process each measurement
-            for (const measurement of measurements) {
-                const moment = (window as any).moment;
-                const measurementDate = moment(measurement.date * 1000);
-                const record: MeasurementRecord = {
-                    date: measurementDate.format('YYYY-MM-DD HH:mm'),
-                    userId: this.settings.defaultUser || this.settings.users[0]?.id || ''
-                };
-
-                // Add weight measurement if available
-                if (measurement.weight) {
-                    // Convert kg to lbs if using imperial system
-                    const weight = this.settings.measurementSystem === 'imperial'
-                        ? measurement.weight * 2.20462  // Convert kg to lbs
-                        : measurement.weight;
-
-                    record['Weight'] = weight.toFixed(1);
-                }
-
-                if (measurement.bodyFat) {
-                    record['Body Fat'] = measurement.bodyFat.toFixed(1);
-                }
+        await this.syncService.sync(this.googleFitService);
+    }
 
-                // Save the measurements
-                if (this.settings.enableMeasurementFiles) {
-                    await this.measurementService.updateMeasurementFiles(record);
-                }
-                if (this.settings.enableJournalEntry) {
-                    const journalService = new JournalService(this.app, this.settings);
-                    await journalService.appendToJournal(record);
-                }
+    setupWithingsService() {
+        if (this.settings.enableWithings) {
+            if (!this.settings.withingsClientId || !this.settings.withingsClientSecret) {
+                new Notice('Please enter your Withings API credentials in the settings');
+                return;
             }
 
-            new Notice('Successfully synced measurements from Google Fit');
+            this.withingsService = new WithingsService(this.settings, {
+                clientId: this.settings.withingsClientId,
+                clientSecret: this.settings.withingsClientSecret,
+                redirectUri: this.settings.withingsRedirectUri || 'http://localhost:16321/callback',
+                scope: 'user.metrics',
+                onSettingsChange: (settings) => this.handleServiceSettingsChange(settings),
+                app: this.app
+            });
+
+            this.setupWithingsSync();
+        } else {
+            this.withingsService = undefined;
+            this.syncService.unschedule('withings');
+        }
+    }
+
+    setupWithingsSync() {
+        if (this.settings.enableWithings && this.withingsService) {
+            this.syncService.schedule(this.withingsService, this.settings.withingsAutoSyncInterval);
+        } else {
+            this.syncService.unschedule('withings');
+        }
+    }
+
+    async syncWithings() {
+        if (!this.withingsService || !this.settings.withingsRefreshToken) {
+            return;
+        }
+
+        await this.syncService.sync(this.withingsService);
+    }
+
+    /**
+     * All provider services that are currently set up and connected
+     */
+    getHealthSources(): HealthSource[] {
+        const sources: HealthSource[] = [];
+        if (this.googleFitService?.isConnected()) sources.push(this.googleFitService);
+        if (this.withingsService?.isConnected()) sources.push(this.withingsService);
+        return sources;
+    }
+
+    /**
+     * Save a manually entered record. Returns false, after telling the user, when it couldn't be written.
+     */
+    async saveMeasurement(data: MeasurementRecord, notify = true): Promise<boolean> {
+        try {
+            await this.writeRecord(data, notify);
+        } catch (error) {
+            console.error('Failed to save measurement:', error);
+            new Notice('Failed to save measurement. Please try again.');
+            return false;
+        }
+
+        // Already saved, so a failed push must not ask for a retry that would duplicate it.
+        // Writes the Google Fit API rejects are queued and retried on the next sync.
+        try {
+            await this.pushToGoogleFit(data);
         } catch (error) {
-            new Notice('Failed to sync with Google Fit. Check the console for details.');
-            throw error;
+            console.error('Failed to push measurement to Google Fit:', error);
         }
+
+        // Update any UI elements that show the current measurement state
+        this.refreshSettingsTab();
+        return true;
     }
 
-    async saveMeasurement(data: MeasurementRecord): Promise<void> {
+    /**
+     * Record the measurements of an obsidian://body-tracker link, after confirmation unless turned off
+     */
+    private handleLink(params: ObsidianProtocolData) {
+        let record: MeasurementRecord;
         try {
-            // Add to daily journal if enabled
-            if (this.settings.enableJournalEntry) {
-                await this.journalService.appendToJournal(data);
+            record = this.quickEntryService.parseParams(params);
+        } catch (error) {
+            new Notice(`Body Tracker: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        const summary = this.quickEntryService.describe(record);
+        // Confirmed entries always show what was saved
+        const silent = !this.settings.confirmLinkedEntries && (params.silent === 'true' || params.silent === '1');
+        const save = async () => {
+            // saveMeasurement has already shown why a failed save failed
+            if (await this.saveMeasurement(record, !silent) && !silent) {
+                new Notice(`Recorded ${summary}`);
             }
+        };
 
-            // Add to individual body notes if enabled
-            if (this.settings.enableBodyNotes) {
-                for (const measurement of this.settings.measurements) {
-                    if (data[measurement.name] !== undefined) {
-                        await this.journalService.appendToBodyNote(data, measurement.name);
-                    }
-                }
+        if (this.settings.confirmLinkedEntries) {
+            new ConfirmEntryModal(this.app, summary, save).open();
+            return;
+        }
+        save();
+    }
+
+    /**
+     * Send manually recorded weight and body fat to Google Fit when write back is enabled
+     */
+    private async pushToGoogleFit(data: MeasurementRecord): Promise<void> {
+        const service = this.googleFitService;
+        if (!this.settings.googleWriteBack || !service?.isConnected()) {
+            return;
+        }
+
+        // Only the user linked to the Google Fit account is written back
+        if (data.userId !== this.syncService.getUserForSource(service.id)) {
+            return;
+        }
+
+        const samples = this.syncService.fromRecord(data)
+            .filter(sample => sample.metric === 'weight' || sample.metric === 'bodyFat');
+        if (samples.length === 0) {
+            return;
+        }
+
+        const weight = samples.find(sample => sample.metric === 'weight')?.value;
+        const bodyFat = samples.find(sample => sample.metric === 'bodyFat')?.value;
+        await service.pushMeasurement(samples[0].timestamp, weight, bodyFat);
+
+        // Already in the vault, so the next inbound sync must not import it again
+        await this.syncService.markImported(service.id, data.userId, samples);
+    }
+
+    /**
+     * Write a record to every enabled output. Shared by manual entry and provider sync.
+     * Each writer skips entries that are already present, so rewriting a record is safe.
+     */
+    async writeRecord(data: MeasurementRecord, notify = true): Promise<void> {
+        await this.writeRecords([data], notify);
+    }
+
+    /**
+     * Write many records in one pass, touching each file once
+     */
+    async writeRecords(records: MeasurementRecord[], notify = true): Promise<void> {
+        if (records.length === 0) return;
+
+        // Computed measurements are written alongside the values they are derived from
+        records = records.map(record => this.derivedService.addDerivedValues(record));
+
+        if (this.settings.enableMeasurementFiles) {
+            await this.measurementService.updateMeasurementFiles(records, notify);
+        }
+
+        // Add to daily journal if enabled
+        if (this.settings.enableJournalEntry) {
+            await this.journalService.appendToJournal(records, notify);
+        }
+
+        // Add to individual body notes if enabled
+        if (this.settings.enableBodyNotes) {
+            for (const measurement of this.settings.measurements) {
+                await this.journalService.appendToBodyNote(records, measurement.name, notify);
+            }
+        }
+
+        await this.goalService.checkRecords(records);
+    }
+
+    async activateView(viewType: string): Promise<void> {
+        const existing = this.app.workspace.getLeavesOfType(viewType)[0];
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            return;
+        }
+
+        const leaf = this.app.workspace.getLeaf(true);
+        await leaf.setViewState({ type: viewType, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Announce measurements that became due, and add them to today's journal when enabled
+     */
+    private async checkReminders(): Promise<void> {
+        if (!this.settings.enableReminders) return;
+
+        try {
+            const due = this.reminderService.takeUnannounced();
+            if (due.length === 0) return;
+
+            if (this.settings.reminderJournalTasks && this.settings.enableJournalEntry) {
+                await this.reminderService.addJournalTasks(due);
             }
 
-            // Update any UI elements that show the current measurement state
-            this.refreshSettingsTab();
+            if (this.settings.reminderPrompt === 'modal') {
+                new ReminderModal(this.app, this, due).open();
+                return;
+            }
 
+            const names = Array.from(new Set(due.map(reminder => reminder.measurement)));
+            const notice = new Notice(`Measurements due: ${names.join(', ')}. Click to record.`, 15000);
+            notice.noticeEl.addEventListener('click', () => new ReminderModal(this.app, this, due).open());
         } catch (error) {
-            console.error('Failed to save measurement:', error);
-            new Notice('Failed to save measurement. Please try again.');
+            console.error('Failed to check reminders:', error);
+        }
+    }
+
+    private updateRibbonIcon() {
+        if (this.settings.showRibbonIcon && !this.ribbonIconEl) {
+            this.ribbonIconEl = this.addRibbonIcon('scale', 'Record Body Measurements', () => {
+                new MeasurementModal(this.app, this).open();
+            });
+        } else if (!this.settings.showRibbonIcon && this.ribbonIconEl) {
+            this.ribbonIconEl.remove();
+            this.ribbonIconEl = undefined;
+        }
+    }
+
+    /**
+     * Replace the per-measurement record commands with one for each current measurement
+     */
+    private registerMeasurementCommands() {
+        // Derived measurements are computed, not entered
+        const measurements = this.settings.measurements.filter(m => !m.formula);
+
+        // Settings are saved on every keystroke, so only re-register when the commands would change
+        const names = measurements.map(m => m.name).join('\n');
+        if (names === this.measurementCommandNames) return;
+        this.measurementCommandNames = names;
+
+        this.measurementCommandIds.forEach(id => this.removeCommand(id));
+        this.measurementCommandIds = [];
+
+        for (const measurement of measurements) {
+            const id = `record-${measurement.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+            if (this.measurementCommandIds.includes(id)) continue;
+
+            this.addCommand({
+                id,
+                name: `Record ${measurement.name}`,
+                callback: () => {
+                    const current = this.settings.measurements.find(m => m.name === measurement.name);
+                    if (current) new QuickRecordModal(this.app, this, current).open();
+                }
+            });
+            this.measurementCommandIds.push(id);
         }
     }
 
@@ -304,6 +668,64 @@ export default class BodyTrackerPlugin extends Plugin {
                 return canRun;
             }
         });
+
+        this.addCommand({
+            id: 'backfill-measurements',
+            name: 'Backfill from Provider',
+            checkCallback: (checking: boolean): boolean => {
+                const sources = this.getHealthSources();
+                const canRun = sources.length > 0;
+
+                if (checking) return canRun;
+
+                if (canRun) {
+                    new BackfillModal(this.app, this, sources).open();
+                }
+
+                return canRun;
+            }
+        });
+
+        this.addCommand({
+            id: 'sync-withings',
+            name: 'Sync Withings Measurements',
+            checkCallback: (checking: boolean): boolean => {
+                const canRun: boolean = !!(
+                    this.settings.enableWithings
+                    && this.settings.withingsRefreshToken
+                    && this.withingsService
+                );
+
+                if (checking) return canRun;
+
+                if (canRun) {
+                    this.syncWithings();
+                }
+
+                return canRun;
+            }
+        });
+
+        this.addCommand({
+            id: 'connect-withings',
+            name: 'Connect Withings Account',
+            checkCallback: (checking: boolean): boolean => {
+                const canRun: boolean = !!(
+                    this.settings.enableWithings
+                    && this.settings.withingsClientId
+                    && this.settings.withingsClientSecret
+                    && !this.settings.withingsRefreshToken
+                );
+
+                if (checking) return canRun;
+
+                if (canRun) {
+                    this.withingsService?.authenticate();
+                }
+
+                return canRun;
+            }
+        });
     }
 
     private refreshSettingsTab() {
@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { MigrationFile } from './services/migration-service';
+
+export type MigrationChoice = 'migrate' | 'switch' | 'cancel';
+
+const MAX_PREVIEW_FILES = 20;
+const MAX_PREVIEW_LINES = 3;
+
+export class UnitMigrationModal extends Modal {
+    private choice: MigrationChoice = 'cancel';
+
+    constructor(
+        app: App,
+        private systemLabel: string,
+        private plan: MigrationFile[],
+        private onChoose: (choice: MigrationChoice) => void
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const lineCount = this.plan.reduce((total, file) => total + file.changes.length + file.properties.length, 0);
+
+        contentEl.createEl('h2', { text: `Switch to ${this.systemLabel}` });
+        contentEl.createEl('p', {
+            text: `${lineCount} existing value${lineCount === 1 ? '' : 's'} in ${this.plan.length} file${this.plan.length === 1 ? '' : 's'} can be converted to the new units. Charts in measurement files are rebuilt afterwards.`
+        });
+
+        const previewEl = contentEl.createDiv({ cls: 'body-tracker-migration-preview' });
+        this.plan.slice(0, MAX_PREVIEW_FILES).forEach(({ file, changes, properties }) => {
+            // Properties are shown as they would appear in the frontmatter
+            const previews = [
+                ...properties.map(p => ({ before: `${p.key}: ${p.before}`, after: `${p.key}: ${p.after}` })),
+                ...changes.map(change => ({ before: change.before.trim(), after: change.after.trim() }))
+            ];
+
+            previewEl.createEl('h4', { text: `${file.path} (${previews.length})` });
+            const list = previewEl.createEl('ul');
+            previews.slice(0, MAX_PREVIEW_LINES).forEach(change => {
+                const item = list.createEl('li');
+                item.createEl('code', { text: change.before });
+                item.appendText(' → ');
+                item.createEl('code', { text: change.after });
+            });
+            if (previews.length > MAX_PREVIEW_LINES) {
+                list.createEl('li', { text: `…and ${previews.length - MAX_PREVIEW_LINES} more` });
+            }
+        });
+        if (this.plan.length > MAX_PREVIEW_FILES) {
+            previewEl.createEl('p', { text: `…and ${this.plan.length - MAX_PREVIEW_FILES} more files` });
+        }
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.choose('cancel')))
+            .addButton(btn => btn
+                .setButtonText('Switch Without Converting')
+                .onClick(() => this.choose('switch')))
+            .addButton(btn => btn
+                .setButtonText('Convert and Switch')
+                .setCta()
+                .onClick(() => this.choose('migrate')));
+    }
+
+    private choose(choice: MigrationChoice) {
+        this.choice = choice;
+        this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Dismissing the modal counts as cancelling
+        this.onChoose(this.choice);
+    }
+}
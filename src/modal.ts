@@ -1,11 +1,59 @@
-import { App, Modal, Setting } from 'obsidian';
-import type { Settings, User, Measurement, MeasurementRecord } from './types';
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import type { Settings, Goal, Measurement, MeasurementRecord, MeasurementType } from './types';
+import { formatValue, getDisplayUnit, getUserSystem, tryConvertMeasurementValue } from './units';
+
+export const MEASUREMENT_TYPE_LABELS: Record<MeasurementType, string> = {
+    length: 'Length',
+    mass: 'Mass',
+    percentage: 'Percentage',
+    score: 'Score',
+    custom: 'Custom'
+};
+
+// Number input behaviour for each measurement type
+const INPUT_CONFIG: Record<MeasurementType, { step: string, min?: number, max?: number }> = {
+    length: { step: '0.1', min: 0 },
+    mass: { step: '0.1', min: 0 },
+    percentage: { step: '0.1', min: 0, max: 100 },
+    score: { step: '1' },
+    custom: { step: 'any' }
+};
+
+// Values outside these ranges are most likely typos, in the metric unit of each type
+export const DEFAULT_PLAUSIBLE_RANGES: Record<MeasurementType, { min?: number, max?: number }> = {
+    length: { min: 1, max: 300 },
+    mass: { min: 1, max: 400 },
+    percentage: { min: 0, max: 100 },
+    score: {},
+    custom: {}
+};
+
+/**
+ * Plausible range of a measurement in the given unit
+ */
+export function getPlausibleRange(measurement: Measurement, settings: Settings, unit: string): { min?: number, max?: number } {
+    const range = { ...DEFAULT_PLAUSIBLE_RANGES[measurement.type], ...measurement.plausibleRange };
+    const metricUnit = getDisplayUnit(measurement, settings, 'metric');
+    const toUnit = (value?: number) => value === undefined
+        ? undefined
+        : tryConvertMeasurementValue(measurement, value, metricUnit, unit);
+
+    return { min: toUnit(range.min), max: toUnit(range.max) };
+}
 
 export class MeasurementModal extends Modal {
     private settings: Settings;
     private measurementValues: { [key: string]: string } = {};
+    private selectedUserId = '';
+    private lastValues: { [key: string]: number } = {};
+    private confirmingWarnings = false;
+    private saveButton?: ButtonComponent;
+    private messageEl?: HTMLElement;
 
-    constructor(app: App, private plugin: any) {
+    /**
+     * Optionally preselect a user and only ask for some measurements, e.g. the overdue ones
+     */
+    constructor(app: App, private plugin: any, private only?: { userId?: string, measurements?: string[] }) {
         super(app);
         this.settings = plugin.settings;
     }
@@ -29,28 +77,73 @@ export class MeasurementModal extends Modal {
             });
 
         // User dropdown if multiple users exist
+        this.selectedUserId = this.only?.userId || this.settings.defaultUser || this.settings.users[0]?.id || '';
         if (this.settings.users.length > 0) {
-            const userContainer = new Setting(contentEl)
+            new Setting(contentEl)
                 .setName('User')
                 .addDropdown(dropdown => {
                     this.settings.users.forEach(user => {
                         dropdown.addOption(user.id, user.name);
                     });
-                    if (this.settings.defaultUser) {
-                        dropdown.setValue(this.settings.defaultUser);
-                    } else if (this.settings.users.length > 0) {
-                        dropdown.setValue(this.settings.users[0].id);
-                    }
+                    dropdown
+                        .setValue(this.selectedUserId)
+                        .onChange(value => {
+                            this.selectedUserId = value;
+                            this.resetConfirmation();
+                            // Units and profile-provided fields depend on the user
+                            this.renderMeasurements(measurementsContainer);
+                        });
                 });
         }
 
         // Create container for measurements
         const measurementsContainer = contentEl.createDiv();
         measurementsContainer.addClass('measurements-container');
+        this.renderMeasurements(measurementsContainer);
+
+        // Errors, and warnings that need a second click to save anyway
+        this.messageEl = contentEl.createDiv({ cls: 'body-tracker-modal-message' });
+
+        // Submit button
+        new Setting(contentEl)
+            .addButton(btn => {
+                this.saveButton = btn;
+                btn.setButtonText('Save Measurements')
+                    .setCta()
+                    .onClick(() => {
+                        const dateInput = contentEl.querySelector('input[type="datetime-local"]') as HTMLInputElement;
+
+                        // Drop values for fields that are hidden for the selected user
+                        const visible = new Set(this.getVisibleMeasurements().map(m => m.name));
+                        const values = Object.fromEntries(Object.entries(this.measurementValues)
+                            .filter(([name]) => visible.has(name)));
+
+                        const { errors, warnings } = this.validate(dateInput.value, values);
+                        if (errors.length > 0) {
+                            this.showMessages(errors, 'mod-error');
+                            return;
+                        }
+
+                        if (warnings.length > 0 && !this.confirmingWarnings) {
+                            this.confirmingWarnings = true;
+                            this.showMessages([...warnings, 'Check the values above, or save them anyway.'], 'mod-warning');
+                            btn.setButtonText('Save Anyway').setWarning();
+                            return;
+                        }
+
+                        this.handleSubmit(dateInput.value, this.selectedUserId, values);
+                        this.close();
+                    });
+            });
+    }
+
+    private renderMeasurements(measurementsContainer: HTMLElement) {
+        measurementsContainer.empty();
+        const system = getUserSystem(this.settings, this.selectedUserId);
 
         // Group measurements by type
         const measurementsByType: { [key: string]: Measurement[] } = {};
-        this.settings.measurements.forEach(m => {
+        this.getVisibleMeasurements().forEach(m => {
             if (!measurementsByType[m.type]) {
                 measurementsByType[m.type] = [];
             }
@@ -60,23 +153,50 @@ export class MeasurementModal extends Modal {
         // Add measurements grouped by type
         Object.entries(measurementsByType).forEach(([type, measurements]) => {
             const typeHeading = measurementsContainer.createEl('h3', {
-                text: type.charAt(0).toUpperCase() + type.slice(1) + ' Measurements'
+                text: (MEASUREMENT_TYPE_LABELS[type as MeasurementType] || type) + ' Measurements'
             });
             typeHeading.style.marginTop = '1em';
             typeHeading.style.marginBottom = '0.5em';
 
             measurements.forEach(measurement => {
-                const units = this.plugin.getUnitForMeasurement(measurement.type);
-                const currentUnit = this.settings.measurementSystem === 'metric' ? units.metric : units.imperial;
+                const currentUnit = getDisplayUnit(measurement, this.settings, system);
+                const input = INPUT_CONFIG[measurement.type] || INPUT_CONFIG.custom;
+
+                const latest = this.plugin.measurementIndex.getLatest(measurement.name, this.selectedUserId || undefined);
+                const last = latest && tryConvertMeasurementValue(measurement, latest.value, latest.unit, currentUnit);
+                if (last !== undefined) {
+                    this.lastValues[measurement.name] = last;
+                } else {
+                    delete this.lastValues[measurement.name];
+                }
+
+                const hints = [currentUnit ? `Enter value in ${currentUnit}` : 'Enter value'];
+                const trend = this.plugin.trendService.getHint(measurement.name, this.selectedUserId || undefined);
+                if (trend) {
+                    hints.push(trend);
+                }
+                const goal = this.plugin.goalService.getGoals(this.selectedUserId, measurement.name)
+                    .find((g: Goal) => !g.reachedAt);
+                if (goal) {
+                    hints.push(this.plugin.goalService.getHint(goal));
+                }
 
                 new Setting(measurementsContainer)
                     .setName(measurement.name)
-                    .setDesc(`Enter value in ${currentUnit}`)
+                    .setDesc(hints.join(' · '))
                     .addText(text => {
                         text.inputEl.type = 'number';
-                        text.inputEl.step = '0.1';
-                        text.setPlaceholder(`${measurement.name} (${currentUnit})`);
+                        text.inputEl.step = input.step;
+                        if (input.min !== undefined) text.inputEl.min = String(input.min);
+                        if (input.max !== undefined) text.inputEl.max = String(input.max);
+                        if (last !== undefined) {
+                            text.setPlaceholder(currentUnit ? `Last: ${formatValue(last)} ${currentUnit}` : `Last: ${formatValue(last)}`);
+                        } else {
+                            text.setPlaceholder(currentUnit ? `${measurement.name} (${currentUnit})` : measurement.name);
+                        }
+                        text.setValue(this.measurementValues[measurement.name] || '');
                         text.onChange(value => {
+                            this.resetConfirmation();
                             if (value) {
                                 this.measurementValues[measurement.name] = value;
                             } else {
@@ -87,31 +207,92 @@ export class MeasurementModal extends Modal {
                     });
             });
         });
+    }
 
-        // Submit button
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Save Measurements')
-                .setCta()
-                .onClick(() => {
-                    const dateInput = contentEl.querySelector('input[type="datetime-local"]') as HTMLInputElement;
-                    const userSelect = contentEl.querySelector('.dropdown') as HTMLSelectElement;
-                    const userId = userSelect ? userSelect.value : (this.settings.defaultUser || this.settings.users[0]?.id || '');
-
-                    if (Object.keys(this.measurementValues).length === 0) {
-                        // No measurements entered
-                        return;
-                    }
-
-                    this.handleSubmit(dateInput.value, userId, this.measurementValues);
-                    this.close();
-                }));
+    /**
+     * Measurements to ask for. Derived measurements are computed on save and
+     * height comes from the profile when the user has one.
+     */
+    private getVisibleMeasurements(): Measurement[] {
+        const user = this.settings.users.find(u => u.id === this.selectedUserId);
+        return this.settings.measurements.filter(m =>
+            !m.formula && !(user?.height && m.type === 'length' && m.name.toLowerCase() === 'height')
+            && (!this.only?.measurements || this.only.measurements.includes(m.name)));
+    }
+
+    /**
+     * Errors block saving, warnings flag likely typos and can be confirmed
+     */
+    private validate(dateStr: string, values: { [key: string]: string }): { errors: string[], warnings: string[] } {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const system = getUserSystem(this.settings, this.selectedUserId);
+
+        if (!dateStr) {
+            errors.push('Please pick a date.');
+        }
+        if (Object.keys(values).length === 0) {
+            errors.push('Enter at least one measurement.');
+        }
+
+        for (const [name, raw] of Object.entries(values)) {
+            const measurement = this.settings.measurements.find(m => m.name === name);
+            if (!measurement) continue;
+
+            const value = parseFloat(raw);
+            if (isNaN(value)) {
+                errors.push(`${name}: "${raw}" is not a number.`);
+                continue;
+            }
+
+            const unit = getDisplayUnit(measurement, this.settings, system);
+            const format = (v: number) => unit ? `${formatValue(v)} ${unit}` : formatValue(v);
+
+            const { min, max } = getPlausibleRange(measurement, this.settings, unit);
+            if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+                warnings.push(`${name}: ${format(value)} is outside the plausible range`
+                    + ` of ${min !== undefined ? format(min) : '…'} to ${max !== undefined ? format(max) : '…'}.`);
+                continue;
+            }
+
+            const last = this.lastValues[name];
+            const threshold = this.settings.changeWarningThreshold;
+            if (last !== undefined && last !== 0 && threshold > 0) {
+                const change = Math.abs(value - last) / Math.abs(last) * 100;
+                if (change > threshold) {
+                    warnings.push(`${name}: ${format(value)} is ${Math.round(change)}% away from the last value of ${format(last)}.`);
+                }
+            }
+        }
+
+        return { errors, warnings };
+    }
+
+    private showMessages(messages: string[], cls: string) {
+        if (!this.messageEl) return;
+
+        this.messageEl.empty();
+        this.messageEl.className = `body-tracker-modal-message ${cls}`;
+        messages.forEach(message => this.messageEl!.createDiv({ text: message }));
+    }
+
+    /**
+     * Changing a value asks for confirmation again
+     */
+    private resetConfirmation() {
+        this.messageEl?.empty();
+        if (!this.confirmingWarnings) return;
+
+        this.confirmingWarnings = false;
+        this.saveButton?.buttonEl.removeClass('mod-warning');
+        this.saveButton?.setButtonText('Save Measurements').setCta();
     }
 
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
         this.measurementValues = {};
+        this.confirmingWarnings = false;
     }
 
     private handleSubmit(dateStr: string, userId: string, measurements: { [key: string]: string }) {
@@ -143,4 +324,10 @@ document.head.createEl('style').setText(`
     opacity: 0.7;
     margin-left: 0.5em;
 }
+.body-tracker-modal-message.mod-error {
+    color: var(--text-error);
+}
+.body-tracker-modal-message.mod-warning {
+    color: var(--text-warning);
+}
 `);
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { ActivityLevel, MeasurementSystem, Settings, Sex, User } from './types';
+import { HEALTH_SOURCE_NAMES } from './services/health-source';
+import { convert, formatValue, getUserSystem } from './units';
+
+export const ACTIVITY_LEVEL_LABELS: Record<ActivityLevel, string> = {
+    sedentary: 'Sedentary',
+    light: 'Lightly active',
+    moderate: 'Moderately active',
+    active: 'Active',
+    veryActive: 'Very active'
+};
+
+/**
+ * Edit a user's profile. Changes are made on a copy and only handed back on save.
+ */
+export class UserProfileModal extends Modal {
+    private profile: User;
+
+    constructor(
+        app: App,
+        private settings: Settings,
+        user: User,
+        private onSave: (profile: User) => Promise<void>
+    ) {
+        super(app);
+        this.profile = { ...user, linkedSources: [...(user.linkedSources || [])] };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: `Profile: ${this.profile.name}` });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => text
+                .setValue(this.profile.name)
+                .onChange(value => this.profile.name = value.trim()));
+
+        new Setting(contentEl)
+            .setName('Units')
+            .setDesc('Measurement system used when recording values for this user')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Use default')
+                .addOption('metric', 'Metric')
+                .addOption('imperial', 'Imperial')
+                .setValue(this.profile.measurementSystem || '')
+                .onChange(value => {
+                    this.profile.measurementSystem = (value || undefined) as MeasurementSystem | undefined;
+                    // Height is shown in the profile's units
+                    this.onOpen();
+                }));
+
+        // Height is stored in cm and shown in the profile's units
+        const heightUnit = this.getSystem() === 'metric' ? 'cm' : 'in';
+        new Setting(contentEl)
+            .setName('Height')
+            .setDesc(`In ${heightUnit}. Used for BMI and similar measurements instead of asking every time.`)
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.step = '0.1';
+                text.inputEl.min = '0';
+                text.setValue(this.profile.height ? formatValue(convert(this.profile.height, 'cm', heightUnit)) : '')
+                    .onChange(value => {
+                        const height = parseFloat(value);
+                        this.profile.height = isNaN(height) || height <= 0 ? undefined : convert(height, heightUnit, 'cm');
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('Birthdate')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.profile.birthdate || '')
+                    .onChange(value => this.profile.birthdate = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Sex')
+            .setDesc('Used by body fat estimates and energy calculations')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Not set')
+                .addOption('male', 'Male')
+                .addOption('female', 'Female')
+                .setValue(this.profile.sex || '')
+                .onChange(value => this.profile.sex = (value || undefined) as Sex | undefined));
+
+        new Setting(contentEl)
+            .setName('Activity Level')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Not set');
+                Object.entries(ACTIVITY_LEVEL_LABELS).forEach(([level, label]) => dropdown.addOption(level, label));
+                dropdown
+                    .setValue(this.profile.activityLevel || '')
+                    .onChange(value => this.profile.activityLevel = (value || undefined) as ActivityLevel | undefined);
+            });
+
+        contentEl.createEl('h3', { text: 'Linked Providers' });
+        contentEl.createEl('p', {
+            text: 'Synced data from a linked provider is recorded for this user. A provider can only be linked to one user.',
+            cls: 'setting-item-description'
+        });
+
+        Object.entries(HEALTH_SOURCE_NAMES).forEach(([sourceId, sourceName]) => {
+            const owner = this.settings.users.find(user =>
+                user.id !== this.profile.id && user.linkedSources?.includes(sourceId));
+
+            new Setting(contentEl)
+                .setName(sourceName)
+                .setDesc(owner ? `Currently linked to ${owner.name}` : '')
+                .addToggle(toggle => toggle
+                    .setValue(this.profile.linkedSources!.includes(sourceId))
+                    .onChange(value => {
+                        this.profile.linkedSources = this.profile.linkedSources!.filter(id => id !== sourceId);
+                        if (value) this.profile.linkedSources.push(sourceId);
+                    }));
+        });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(async () => {
+                    if (!this.profile.name) {
+                        new Notice('Please enter a name');
+                        return;
+                    }
+                    await this.onSave(this.profile);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private getSystem(): MeasurementSystem {
+        return this.profile.measurementSystem || getUserSystem(this.settings);
+    }
+}
@@ -0,0 +1,93 @@
+import { App, Modal, Setting } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { MeasurementRecord } from './types';
+
+/**
+ * Free-text entry such as "w 81.4, waist 84 @alice yesterday 7:30", previewed while typing
+ */
+export class QuickEntryModal extends Modal {
+    private text = '';
+
+    constructor(app: App, private plugin: BodyTrackerPlugin) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Quick Entry' });
+
+        const aliases = this.plugin.settings.measurements
+            .filter(m => m.aliases?.length)
+            .map(m => `${m.aliases!.join('/')} = ${m.name}`);
+        contentEl.createEl('p', {
+            cls: 'setting-item-description',
+            text: 'Separate values with commas. Add @user, today, yesterday or a date, and a time as needed.'
+                + (aliases.length > 0 ? ` Aliases: ${aliases.join(', ')}.` : '')
+        });
+
+        let previewEl: HTMLElement;
+
+        new Setting(contentEl)
+            .addText(text => {
+                text.inputEl.addClass('body-tracker-quick-entry');
+                text.setPlaceholder('w 81.4, waist 84 @alice yesterday 7:30')
+                    .setValue(this.text)
+                    .onChange(value => {
+                        this.text = value;
+                        this.renderPreview(previewEl);
+                    });
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        this.submit(previewEl);
+                    }
+                });
+                setTimeout(() => text.inputEl.focus(), 0);
+            })
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.submit(previewEl)));
+
+        previewEl = contentEl.createDiv({ cls: 'body-tracker-modal-message' });
+    }
+
+    /**
+     * Show what would be saved, or why the entry can't be read
+     */
+    private renderPreview(previewEl: HTMLElement): MeasurementRecord | undefined {
+        previewEl.empty();
+        previewEl.className = 'body-tracker-modal-message';
+        if (!this.text.trim()) return undefined;
+
+        try {
+            const record = this.plugin.quickEntryService.parse(this.text);
+            previewEl.setText(this.plugin.quickEntryService.describe(record));
+            return record;
+        } catch (error) {
+            previewEl.addClass('mod-error');
+            previewEl.setText(error instanceof Error ? error.message : String(error));
+            return undefined;
+        }
+    }
+
+    private submit(previewEl: HTMLElement) {
+        const record = this.renderPreview(previewEl);
+        if (!record) {
+            if (!this.text.trim()) {
+                previewEl.addClass('mod-error');
+                previewEl.setText('Type an entry such as "w 81.4".');
+            }
+            return;
+        }
+
+        this.plugin.saveMeasurement(record);
+        this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
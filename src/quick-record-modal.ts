@@ -0,0 +1,103 @@
+import { App, Modal, Setting } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { Measurement } from './types';
+import { getPlausibleRange } from './modal';
+import { formatValue, getDisplayUnit, getUserSystem, tryConvertMeasurementValue } from './units';
+
+/**
+ * Record a single measurement for the default user, submitted with Enter
+ */
+export class QuickRecordModal extends Modal {
+    private userId: string;
+    private value = '';
+    private confirming = false;
+
+    constructor(app: App, private plugin: BodyTrackerPlugin, private measurement: Measurement) {
+        super(app);
+        this.userId = plugin.settings.defaultUser || plugin.settings.users[0]?.id || '';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const settings = this.plugin.settings;
+        const unit = getDisplayUnit(this.measurement, settings, getUserSystem(settings, this.userId));
+        const latest = this.plugin.measurementIndex.getLatest(this.measurement.name, this.userId || undefined);
+        const last = latest && tryConvertMeasurementValue(this.measurement, latest.value, latest.unit, unit);
+
+        contentEl.createEl('h2', { text: `Record ${this.measurement.name}` });
+
+        if (settings.users.length > 1) {
+            new Setting(contentEl)
+                .setName('User')
+                .addDropdown(dropdown => {
+                    settings.users.forEach(user => dropdown.addOption(user.id, user.name));
+                    dropdown.setValue(this.userId).onChange(value => {
+                        this.userId = value;
+                        this.confirming = false;
+                        this.onOpen();
+                    });
+                });
+        }
+
+        const messageEl = contentEl.createDiv({ cls: 'body-tracker-modal-message' });
+
+        new Setting(contentEl)
+            .setName(unit ? `Value in ${unit}` : 'Value')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.step = 'any';
+                if (last !== undefined) text.setPlaceholder(`Last: ${formatValue(last)}`);
+                text.setValue(this.value).onChange(value => {
+                    this.value = value;
+                    this.confirming = false;
+                    messageEl.empty();
+                });
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        this.submit(unit, messageEl);
+                    }
+                });
+                // Focus once the modal is shown
+                setTimeout(() => text.inputEl.focus(), 0);
+            })
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.submit(unit, messageEl)));
+    }
+
+    private submit(unit: string, messageEl: HTMLElement) {
+        const value = parseFloat(this.value);
+        messageEl.empty();
+
+        if (isNaN(value)) {
+            messageEl.className = 'body-tracker-modal-message mod-error';
+            messageEl.setText('Please enter a number.');
+            return;
+        }
+
+        const { min, max } = getPlausibleRange(this.measurement, this.plugin.settings, unit);
+        const implausible = (min !== undefined && value < min) || (max !== undefined && value > max);
+        if (implausible && !this.confirming) {
+            this.confirming = true;
+            messageEl.className = 'body-tracker-modal-message mod-warning';
+            messageEl.setText(`${formatValue(value)}${unit ? ' ' + unit : ''} looks implausible. Press Enter again to save anyway.`);
+            return;
+        }
+
+        const moment = (window as any).moment;
+        this.plugin.saveMeasurement({
+            date: moment().format('YYYY-MM-DD HH:mm'),
+            userId: this.userId,
+            [this.measurement.name]: this.value
+        });
+        this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
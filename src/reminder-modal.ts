@@ -0,0 +1,69 @@
+import { App, Modal, Setting } from 'obsidian';
+import type BodyTrackerPlugin from './main';
+import type { DueReminder } from './services/reminder-service';
+import { MeasurementModal } from './modal';
+
+const SNOOZE_HOURS = 2;
+
+/**
+ * Overdue measurements per user, with buttons to record, snooze or skip them for today
+ */
+export class ReminderModal extends Modal {
+    constructor(app: App, private plugin: BodyTrackerPlugin, private reminders: DueReminder[]) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Measurements Due' });
+
+        const reminderService = this.plugin.reminderService;
+        const byUser = reminderService.groupByUser(this.reminders);
+        if (byUser.size === 0) {
+            contentEl.createEl('p', { text: 'Everything is up to date.' });
+            return;
+        }
+
+        byUser.forEach((measurements, userId) => {
+            const user = this.plugin.settings.users.find(u => u.id === userId);
+            const reminders = this.reminders.filter(reminder => reminder.userId === userId);
+            const done = () => {
+                this.reminders = this.reminders.filter(reminder => reminder.userId !== userId);
+                if (this.reminders.length === 0) {
+                    this.close();
+                } else {
+                    this.onOpen();
+                }
+            };
+
+            new Setting(contentEl)
+                .setName(user?.name || 'Measurements')
+                .setDesc(measurements.join(', '))
+                .addButton(btn => btn
+                    .setButtonText('Record')
+                    .setCta()
+                    .onClick(() => {
+                        new MeasurementModal(this.app, this.plugin, { userId, measurements }).open();
+                        done();
+                    }))
+                .addButton(btn => btn
+                    .setButtonText(`Snooze ${SNOOZE_HOURS}h`)
+                    .onClick(async () => {
+                        await reminderService.snooze(reminders, SNOOZE_HOURS);
+                        done();
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('Skip Today')
+                    .onClick(async () => {
+                        await reminderService.skipToday(reminders);
+                        done();
+                    }));
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,180 @@
+import { HEALTH_METRIC_UNITS, HealthFileImporter, HealthMetric, ImportScanOptions, ImportedSample } from './health-source';
+import { ZipArchive } from './zip-archive';
+import { convert, getDimension } from '../units';
+
+export const APPLE_HEALTH_SOURCE_ID = 'apple-health';
+
+// Quantity types read from the export and the metric each one is imported as
+const APPLE_HEALTH_TYPES: Record<string, HealthMetric> = {
+    HKQuantityTypeIdentifierBodyMass: 'weight',
+    HKQuantityTypeIdentifierBodyFatPercentage: 'bodyFat',
+    HKQuantityTypeIdentifierLeanBodyMass: 'leanMass',
+    HKQuantityTypeIdentifierHeight: 'height',
+    HKQuantityTypeIdentifierWaistCircumference: 'waist',
+    HKQuantityTypeIdentifierBodyMassIndex: 'bmi'
+};
+
+// Apple's unit strings mapped onto ours, with a factor for the ones we don't have
+const APPLE_UNITS: Record<string, { unit: string, factor: number }> = {
+    kg: { unit: 'kg', factor: 1 },
+    g: { unit: 'kg', factor: 0.001 },
+    lb: { unit: 'lbs', factor: 1 },
+    st: { unit: 'st', factor: 1 },
+    cm: { unit: 'cm', factor: 1 },
+    mm: { unit: 'cm', factor: 0.1 },
+    m: { unit: 'cm', factor: 100 },
+    in: { unit: 'in', factor: 1 },
+    ft: { unit: 'in', factor: 12 }
+};
+
+const RECORD_TAG = '<Record ';
+
+/**
+ * Reads body measurements from an Apple Health export.zip or export.xml.
+ * The file is streamed and only the opening tags of body records are parsed, so exports
+ * of several hundred megabytes don't have to fit in memory at once.
+ */
+export class AppleHealthImporter implements HealthFileImporter {
+    readonly id = APPLE_HEALTH_SOURCE_ID;
+    readonly name = 'Apple Health';
+    readonly instructions = 'In the Health app, tap your profile picture and choose "Export All Health Data". Pick the export.zip, or the export.xml inside it.';
+    readonly extensions = ['zip', 'xml'];
+    private moment = (window as any).moment;
+
+    async scan(files: Array<{ name: string, data: Blob }>, options: ImportScanOptions = {}): Promise<ImportedSample[]> {
+        const samples: ImportedSample[] = [];
+        for (const file of files) {
+            if (!await this.scanFile(file.data, file.name, samples, options)) return [];
+        }
+        return samples.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Add the samples of one export.zip or export.xml, returns false when cancelled
+     */
+    private async scanFile(file: Blob, fileName: string, samples: ImportedSample[], options: ImportScanOptions): Promise<boolean> {
+        let stream: ReadableStream<Uint8Array>;
+        let totalBytes = file.size;
+        const onRead = (bytes: number) => options.onProgress?.(fileName, bytes, totalBytes);
+
+        if (fileName.toLowerCase().endsWith('.zip')) {
+            const archive = await ZipArchive.open(file);
+            // Next to export.xml, export_cda.xml holds clinical documents in another format
+            const entry = archive.find(name => /(^|\/)export\.xml$/.test(name));
+            if (!entry) throw new Error('No export.xml in this zip file');
+
+            totalBytes = entry.compressedSize;
+            stream = await archive.stream(entry, onRead);
+        } else {
+            let read = 0;
+            stream = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+                transform(chunk, controller) {
+                    read += chunk.byteLength;
+                    onRead(read);
+                    controller.enqueue(chunk);
+                }
+            }));
+        }
+
+        const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        try {
+            for (; ;) {
+                if (options.isCancelled?.()) {
+                    await reader.cancel();
+                    return false;
+                }
+
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += value;
+                buffer = this.readRecords(buffer, samples);
+            }
+        } finally {
+            reader.releaseLock();
+        }
+
+        return true;
+    }
+
+    /**
+     * Parse the complete record tags in the buffer and return what is left for the next chunk
+     */
+    private readRecords(buffer: string, samples: ImportedSample[]): string {
+        let position = 0;
+
+        for (; ;) {
+            const start = buffer.indexOf(RECORD_TAG, position);
+            if (start < 0) {
+                // Keep enough to complete a tag name split between chunks
+                return buffer.slice(Math.max(position, buffer.length - RECORD_TAG.length));
+            }
+
+            const end = buffer.indexOf('>', start);
+            if (end < 0) return buffer.slice(start);
+
+            const sample = this.parseRecord(buffer.slice(start, end + 1));
+            if (sample) samples.push(sample);
+            position = end + 1;
+        }
+    }
+
+    /**
+     * Read a tag such as <Record type="HKQuantityTypeIdentifierBodyMass" sourceName="Withings"
+     * unit="kg" startDate="2024-03-01 07:30:00 +0100" value="81.4"/>
+     */
+    private parseRecord(tag: string): ImportedSample | undefined {
+        const type = /\stype="([^"]+)"/.exec(tag)?.[1];
+        const metric = type ? APPLE_HEALTH_TYPES[type] : undefined;
+        if (!metric) return undefined;
+
+        const attributes: Record<string, string> = {};
+        const pattern = /(\w+)="([^"]*)"/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(tag))) {
+            attributes[match[1]] = decodeEntities(match[2]);
+        }
+
+        const date = this.moment(attributes.startDate, 'YYYY-MM-DD HH:mm:ss ZZ', true);
+        const value = this.toCanonical(metric, parseFloat(attributes.value), attributes.unit || '');
+        if (!date.isValid() || value === undefined) return undefined;
+
+        return {
+            metric,
+            timestamp: date.unix(),
+            value,
+            sourceName: attributes.sourceName || 'Unknown'
+        };
+    }
+
+    /**
+     * Convert a value into the canonical unit of its metric, see HEALTH_METRIC_UNITS
+     */
+    private toCanonical(metric: HealthMetric, value: number, unit: string): number | undefined {
+        if (isNaN(value)) return undefined;
+
+        const target = HEALTH_METRIC_UNITS[metric];
+        if (target === '%') {
+            // Apple stores percentages as fractions, e.g. 0.215 for 21.5%
+            return value <= 1 ? value * 100 : value;
+        }
+        if (!target) return value;
+
+        const known = APPLE_UNITS[unit];
+        if (!known || getDimension(known.unit) !== getDimension(target)) return undefined;
+        return convert(value * known.factor, known.unit, target);
+    }
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
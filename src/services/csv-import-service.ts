@@ -0,0 +1,352 @@
+import type { Measurement, MeasurementRecord, Settings } from '../types';
+import type { MeasurementIndex } from './measurement-index';
+import { formatValue, getDisplayUnit, getUserSystem, normalizeUnit, tryConvertMeasurementValue } from '../units';
+
+export type DecimalSeparator = '.' | ',';
+
+// Special date format value that accepts any ISO 8601 date-time, e.g. Libra's "2012-06-06T06:31:00.000Z"
+export const ISO_DATE_FORMAT = 'ISO 8601';
+
+// Tried in order when guessing the date format of a file
+const DATE_FORMATS = [ISO_DATE_FORMAT, 'YYYY-MM-DD', 'YYYY/MM/DD', 'YYYY.MM.DD', 'M/D/YYYY', 'D/M/YYYY', 'D.M.YYYY', 'D-M-YYYY', 'MMM D, YYYY'];
+// Times that may follow the date in the same column
+const TIME_SUFFIXES = ['', ' H:mm', ' H:mm:ss', ' h:mm A', ' h:mm:ss A', ', H:mm', ', H:mm:ss', ', h:mm A'];
+
+// Units accepted per measurement type, besides the units of custom measurements
+const TYPE_UNITS: Record<string, string[]> = {
+    mass: ['kg', 'lbs', 'st'],
+    length: ['cm', 'in'],
+    percentage: ['%']
+};
+
+export interface CsvColumnMapping {
+    measurement: string;
+    unit: string; // Unit of the values in the file, empty when they are in the user's unit
+}
+
+export interface CsvImportOptions {
+    hasHeader: boolean;
+    dateColumn: number;
+    timeColumn: number; // -1 when the time is part of the date column or missing
+    dateFormat: string; // Moment format of the date, or ISO_DATE_FORMAT
+    userColumn: number; // -1 to import every row for userId
+    userId: string;
+    decimalSeparator: DecimalSeparator;
+    columns: Record<number, CsvColumnMapping>;
+}
+
+export interface CsvImportResult {
+    records: MeasurementRecord[];
+    values: number; // Values in the records
+    duplicates: number; // Values skipped because they are already in the vault or earlier in the file
+    errors: string[];
+}
+
+/**
+ * Reads spreadsheet exports of other apps and turns them into records,
+ * guessing the column mapping from the header and the values
+ */
+export class CsvImportService {
+    private moment = (window as any).moment;
+
+    constructor(private settings: Settings, private index: MeasurementIndex) { }
+
+    /**
+     * Split CSV text into rows of cells. The delimiter (comma, semicolon or tab) is detected from the first lines.
+     */
+    parse(text: string): string[][] {
+        text = text.replace(/^\uFEFF/, '');
+        const firstLines = text.split(/\r?\n/, 10).join('\n');
+        const delimiter = [',', ';', '\t']
+            .map(candidate => ({ candidate, count: firstLines.split(candidate).length }))
+            .sort((a, b) => b.count - a.count)[0].candidate;
+
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = '';
+        let quoted = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    cell += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === delimiter) {
+                row.push(cell.trim());
+                cell = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                row.push(cell.trim());
+                if (row.some(value => value)) rows.push(row);
+                row = [];
+                cell = '';
+            } else {
+                cell += char;
+            }
+        }
+
+        row.push(cell.trim());
+        if (row.some(value => value)) rows.push(row);
+
+        // Some apps, e.g. Libra, start with "#" comment lines, the last of which names the columns
+        const firstData = rows.findIndex(cells => !cells[0].startsWith('#'));
+        if (firstData > 0) {
+            const header = rows[firstData - 1];
+            header[0] = header[0].replace(/^#\s*/, '');
+            return header.length > 1 ? rows.slice(firstData - 1) : rows.slice(firstData);
+        }
+        return rows;
+    }
+
+    /**
+     * Best guess of the mapping: measurement columns from their header names and units,
+     * the date column and format from the values
+     */
+    guessOptions(rows: string[][]): CsvImportOptions {
+        const header = rows[0] || [];
+        const hasHeader = header.some(cell => cell && this.parseNumber(cell, '.') === undefined && !this.findDateFormat([cell]));
+        const data = hasHeader ? rows.slice(1, 21) : rows.slice(0, 20);
+        const columnCount = Math.max(0, ...rows.slice(0, 21).map(row => row.length));
+        const names = Array.from({ length: columnCount }, (_, i) => hasHeader ? (header[i] || '').toLowerCase() : '');
+
+        let dateColumn = names.findIndex(name => /date|time|day/.test(name) && !/^time$/.test(name));
+        let dateFormat = dateColumn >= 0 ? this.findDateFormat(data.map(row => row[dateColumn] || '')) : undefined;
+        if (!dateFormat) {
+            dateColumn = Array.from({ length: columnCount }, (_, i) => i)
+                .find(i => !!this.findDateFormat(data.map(row => row[i] || ''))) ?? 0;
+            dateFormat = this.findDateFormat(data.map(row => row[dateColumn] || '')) || 'YYYY-MM-DD';
+        }
+
+        const timeColumn = names.findIndex((name, i) => i !== dateColumn && /^time\b/.test(name));
+        const userColumn = names.findIndex((name, i) => i !== dateColumn && /^(user|name|person)\b/.test(name)
+            && data.some(row => this.findUser(row[i] || '')));
+
+        const decimalSeparator: DecimalSeparator = data.some(row => row.some(cell => /^-?\d+,\d+(\s*\D*)?$/.test(cell)))
+            && !data.some(row => row.some(cell => /^-?\d+\.\d+(\s*\D*)?$/.test(cell))) ? ',' : '.';
+
+        const columns: Record<number, CsvColumnMapping> = {};
+        const used = new Set<string>();
+        names.forEach((name, i) => {
+            if (!name || [dateColumn, timeColumn, userColumn].includes(i)) return;
+            const measurement = this.findMeasurement(name);
+            if (!measurement || used.has(measurement.name)) return;
+
+            used.add(measurement.name);
+            columns[i] = { measurement: measurement.name, unit: this.findHeaderUnit(name, measurement) };
+        });
+
+        return {
+            hasHeader,
+            dateColumn,
+            timeColumn,
+            dateFormat,
+            userColumn,
+            userId: this.settings.defaultUser || this.settings.users[0]?.id || '',
+            decimalSeparator,
+            columns
+        };
+    }
+
+    /**
+     * Turn the rows into records in each user's units, leaving out values that already exist.
+     * Values of the same user and time are combined into one record.
+     */
+    buildRecords(rows: string[][], options: CsvImportOptions): CsvImportResult {
+        const existing = this.getExistingKeys(Object.values(options.columns).map(column => column.measurement));
+        const records = new Map<string, MeasurementRecord>();
+        const errors: string[] = [];
+        let values = 0;
+        let duplicates = 0;
+
+        const data = options.hasHeader ? rows.slice(1) : rows;
+        data.forEach((row, index) => {
+            const rowNumber = index + (options.hasHeader ? 2 : 1);
+
+            const date = this.parseDate(row[options.dateColumn] || '', options.timeColumn >= 0 ? row[options.timeColumn] : undefined, options.dateFormat);
+            if (!date) {
+                errors.push(`Row ${rowNumber}: unrecognised date "${row[options.dateColumn] || ''}"`);
+                return;
+            }
+
+            let userId = options.userId;
+            if (options.userColumn >= 0) {
+                const user = this.findUser(row[options.userColumn] || '');
+                if (!user) {
+                    errors.push(`Row ${rowNumber}: unknown user "${row[options.userColumn] || ''}"`);
+                    return;
+                }
+                userId = user.id;
+            }
+
+            const recordDate = date.format('YYYY-MM-DD HH:mm');
+            const day = date.format('YYYY-MM-DD');
+
+            for (const [column, mapping] of Object.entries(options.columns)) {
+                const cell = row[Number(column)] || '';
+                if (!cell || !mapping.measurement) continue;
+
+                const measurement = this.settings.measurements.find(m => m.name === mapping.measurement);
+                const parsed = this.parseNumber(cell, options.decimalSeparator);
+                if (!measurement || !parsed) {
+                    errors.push(`Row ${rowNumber}: "${cell}" is not a number`);
+                    continue;
+                }
+
+                const unit = getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, userId));
+                const value = tryConvertMeasurementValue(measurement, parsed.value, parsed.unit || mapping.unit || unit, unit);
+                if (value === undefined) {
+                    errors.push(`Row ${rowNumber}: can't convert ${parsed.unit || mapping.unit} to ${unit} for ${measurement.name}`);
+                    continue;
+                }
+
+                const formatted = formatValue(value);
+                const keys = [
+                    `${measurement.name}|${userId}|${recordDate}|${formatted}`,
+                    `${measurement.name}|${day}|${formatted}`
+                ];
+                if (keys.some(key => existing.has(key))) {
+                    duplicates++;
+                    continue;
+                }
+                // Repeated rows in the file count as duplicates as well
+                existing.add(keys[0]);
+
+                const recordKey = `${userId}|${recordDate}`;
+                if (!records.has(recordKey)) records.set(recordKey, { date: recordDate, userId });
+                records.get(recordKey)![measurement.name] = formatted;
+                values++;
+            }
+        });
+
+        return {
+            records: Array.from(records.values()).sort((a, b) => a.date.localeCompare(b.date)),
+            values,
+            duplicates,
+            errors
+        };
+    }
+
+    /**
+     * Units the values of a measurement may be written in
+     */
+    getUnits(measurement: Measurement): string[] {
+        if (measurement.type === 'custom') {
+            return measurement.customUnits ? [measurement.customUnits.metric, measurement.customUnits.imperial] : [];
+        }
+        return TYPE_UNITS[measurement.type] || [];
+    }
+
+    /**
+     * The first known format every non-empty value parses with
+     */
+    findDateFormat(values: string[]): string | undefined {
+        const samples = values.filter(value => value);
+        if (samples.length === 0) return undefined;
+        return DATE_FORMATS.find(format => samples.every(value => this.parseDate(value, undefined, format)));
+    }
+
+    parseDate(value: string, time: string | undefined, format: string): moment.Moment | undefined {
+        if (!value) return undefined;
+
+        const date = format === ISO_DATE_FORMAT
+            ? this.moment(value, this.moment.ISO_8601, true)
+            : this.moment(value, TIME_SUFFIXES.map(suffix => format + suffix), true);
+        if (!date.isValid()) return undefined;
+
+        const timeMatch = time && /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i.exec(time.trim());
+        if (timeMatch) {
+            const hours = Number(timeMatch[1]) % 12 + (timeMatch[3]?.toLowerCase() === 'pm' ? 12 : 0);
+            date.hours(timeMatch[3] ? hours : Number(timeMatch[1])).minutes(Number(timeMatch[2]));
+        }
+        return date;
+    }
+
+    /**
+     * Read a cell such as "81,4", "1,234.5" or "178.2 lbs" with the given decimal separator
+     */
+    private parseNumber(cell: string, separator: DecimalSeparator): { value: number, unit?: string } | undefined {
+        const match = /^(-?[\d.,\s]*\d)\s*([a-zA-Z%]*)$/.exec(cell.trim());
+        if (!match) return undefined;
+
+        // Thousands separators only count in groups of three digits
+        const number = match[1].replace(/\s/g, '');
+        const thousands = separator === ',' ? '.' : ',';
+        const pattern = new RegExp(`^-?(\\d+|\\d{1,3}(\\${thousands}\\d{3})+)(\\${separator}\\d+)?$`);
+        if (!pattern.test(number)) return undefined;
+
+        return {
+            value: parseFloat(number.split(thousands).join('').replace(separator, '.')),
+            unit: match[2] ? normalizeUnit(match[2]) || match[2] : undefined
+        };
+    }
+
+    /**
+     * Match a header such as "Weight (kg)", "body_fat" or "Fat %" against measurement names and aliases
+     */
+    private findMeasurement(header: string): Measurement | undefined {
+        const normalize = (text: string) => text.toLowerCase().replace(/\(.*?\)|\[.*?\]/g, '').replace(/[^a-z]/g, '');
+        const name = normalize(header);
+        if (!name) return undefined;
+
+        const candidates = this.settings.measurements.filter(m => !m.formula);
+        return candidates.find(m => normalize(m.name) === name || (m.aliases || []).some(alias => normalize(alias) === name))
+            || candidates.find(m => name.startsWith(normalize(m.name)) || name.endsWith(normalize(m.name)));
+    }
+
+    /**
+     * Unit named in a header, e.g. "Weight (lbs)" or "waist_in", if the measurement accepts it
+     */
+    private findHeaderUnit(header: string, measurement: Measurement): string {
+        const bracketed = /[(\[]([^)\]]+)[)\]]/.exec(header)?.[1];
+        const candidates = [bracketed, header.split(/[\s_]+/).pop()].filter((text): text is string => !!text);
+        const units = this.getUnits(measurement);
+
+        for (const candidate of candidates) {
+            const unit = normalizeUnit(candidate) || candidate.trim();
+            if (units.includes(unit)) return unit;
+        }
+        return '';
+    }
+
+    private findUser(name: string) {
+        const lower = name.trim().toLowerCase();
+        return lower ? this.settings.users.find(u => u.name.toLowerCase() === lower || u.id === name.trim()) : undefined;
+    }
+
+    /**
+     * Keys of the readings already in the vault, by user and minute, and by day
+     * for journal lines which carry neither user nor time
+     */
+    private getExistingKeys(measurements: string[]): Set<string> {
+        const keys = new Set<string>();
+
+        for (const name of measurements) {
+            const measurement = this.settings.measurements.find(m => m.name === name);
+            if (!measurement) continue;
+
+            for (const reading of this.index.getReadings({ measurement: name })) {
+                const unit = getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, reading.userId));
+                const value = tryConvertMeasurementValue(measurement, reading.value, reading.unit, unit);
+                if (value === undefined) continue;
+
+                const formatted = formatValue(value);
+                const date = this.moment(reading.timestamp);
+                if (reading.kind === 'journal') {
+                    keys.add(`${name}|${date.format('YYYY-MM-DD')}|${formatted}`);
+                } else {
+                    keys.add(`${name}|${reading.userId || ''}|${date.format('YYYY-MM-DD HH:mm')}|${formatted}`);
+                }
+            }
+        }
+
+        return keys;
+    }
+}
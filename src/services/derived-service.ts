@@ -0,0 +1,129 @@
+import type { DerivedFormula, MeasurementRecord, MeasurementType, Settings, User } from '../types';
+import { convertMeasurementValue, formatValue, getDisplayUnit, getUserSystem, toCanonical } from '../units';
+
+// Measurement names a formula reads its inputs from. Height falls back to the user's profile.
+export type FormulaInput = 'weight' | 'bodyFat' | 'height' | 'waist' | 'hips' | 'neck';
+
+export const FORMULA_INPUT_NAMES: Record<FormulaInput, string> = {
+    weight: 'Weight',
+    bodyFat: 'Body Fat',
+    height: 'Height',
+    waist: 'Waist',
+    hips: 'Hips',
+    neck: 'Neck'
+};
+
+interface FormulaDefinition {
+    label: string;
+    type: MeasurementType;
+    decimals: number;
+    inputs: FormulaInput[];
+    // Inputs and result are in canonical units (kg, cm, %)
+    compute: (inputs: Record<FormulaInput, number>, user?: User) => number | undefined;
+}
+
+export const FORMULAS: Record<DerivedFormula, FormulaDefinition> = {
+    bmi: {
+        label: 'BMI',
+        type: 'score',
+        decimals: 1,
+        inputs: ['weight', 'height'],
+        compute: ({ weight, height }) => weight / Math.pow(height / 100, 2)
+    },
+    waistToHip: {
+        label: 'Waist-to-Hip Ratio',
+        type: 'score',
+        decimals: 2,
+        inputs: ['waist', 'hips'],
+        compute: ({ waist, hips }) => waist / hips
+    },
+    waistToHeight: {
+        label: 'Waist-to-Height Ratio',
+        type: 'score',
+        decimals: 2,
+        inputs: ['waist', 'height'],
+        compute: ({ waist, height }) => waist / height
+    },
+    leanMass: {
+        label: 'Lean Mass',
+        type: 'mass',
+        decimals: 1,
+        inputs: ['weight', 'bodyFat'],
+        compute: ({ weight, bodyFat }) => weight * (1 - bodyFat / 100)
+    },
+    navyBodyFat: {
+        label: 'Body Fat (US Navy)',
+        type: 'percentage',
+        decimals: 1,
+        inputs: ['waist', 'neck', 'height'],
+        compute: ({ waist, neck, hips, height }, user) => {
+            if (user?.sex === 'male' && waist > neck) {
+                return 495 / (1.0324 - 0.19077 * Math.log10(waist - neck) + 0.15456 * Math.log10(height)) - 450;
+            }
+            // The female formula also needs hips
+            if (user?.sex === 'female' && hips && waist + hips > neck) {
+                return 495 / (1.29579 - 0.35004 * Math.log10(waist + hips - neck) + 0.221 * Math.log10(height)) - 450;
+            }
+            return undefined;
+        }
+    }
+};
+
+/**
+ * Fills in derived measurements (BMI, ratios, estimates) from the values in a record
+ */
+export class DerivedMeasurementService {
+    constructor(private settings: Settings) { }
+
+    /**
+     * Return a copy of the record with every derived measurement whose inputs are present.
+     * Values already in the record (e.g. lean mass reported by a scale) are kept.
+     */
+    addDerivedValues(record: MeasurementRecord): MeasurementRecord {
+        const derived = this.settings.measurements.filter(m => m.formula && record[m.name] === undefined);
+        if (derived.length === 0) return record;
+
+        const user = this.settings.users.find(u => u.id === record.userId);
+        const system = getUserSystem(this.settings, record.userId);
+        const inputs = this.getInputs(record, user);
+        const result = { ...record };
+
+        for (const measurement of derived) {
+            const formula = FORMULAS[measurement.formula!];
+            if (formula.inputs.some(input => inputs[input] === undefined)) continue;
+
+            const value = formula.compute(inputs as Record<FormulaInput, number>, user);
+            if (value === undefined || !isFinite(value)) continue;
+
+            // Results are canonical, write them in the unit the user records in
+            const unit = getDisplayUnit(measurement, this.settings, system);
+            const canonicalUnit = getDisplayUnit(measurement, this.settings, 'metric');
+            result[measurement.name] = formatValue(
+                convertMeasurementValue(measurement, value, canonicalUnit, unit),
+                formula.decimals
+            );
+        }
+
+        return result;
+    }
+
+    private getInputs(record: MeasurementRecord, user?: User): Partial<Record<FormulaInput, number>> {
+        const system = getUserSystem(this.settings, record.userId);
+        const inputs: Partial<Record<FormulaInput, number>> = {};
+
+        for (const [input, inputName] of Object.entries(FORMULA_INPUT_NAMES) as Array<[FormulaInput, string]>) {
+            const measurement = this.settings.measurements.find(m => m.name.toLowerCase() === inputName.toLowerCase());
+            const value = measurement ? parseFloat(record[measurement.name]) : NaN;
+            if (isNaN(value)) continue;
+
+            inputs[input] = toCanonical(value, getDisplayUnit(measurement!, this.settings, system));
+        }
+
+        // Height rarely changes, so the profile provides it when it is not in the record
+        if (inputs.height === undefined && user?.height) {
+            inputs.height = user.height;
+        }
+
+        return inputs;
+    }
+}
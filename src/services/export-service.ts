@@ -0,0 +1,176 @@
+import { App, TFile } from 'obsidian';
+import type { Settings } from '../types';
+import type { IndexedMeasurement, IndexedSource, MeasurementIndex } from './measurement-index';
+import { getDisplayUnit, getUserSystem, tryConvertMeasurementValue } from '../units';
+import { getTimezoneOffset } from '../utils';
+
+export type ExportFormat = 'csv' | 'csv-wide' | 'json' | 'jsonl';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mimeType: string }> = {
+    'csv': { label: 'CSV, one row per reading', extension: 'csv', mimeType: 'text/csv' },
+    'csv-wide': { label: 'CSV, one column per measurement', extension: 'csv', mimeType: 'text/csv' },
+    'json': { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+    'jsonl': { label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' }
+};
+
+export interface ExportOptions {
+    format: ExportFormat;
+    measurements: string[];
+    userId?: string; // All users when empty
+    from?: number; // Unix milliseconds, inclusive
+    to?: number; // Unix milliseconds, inclusive
+}
+
+/**
+ * A reading as it appears in an export
+ */
+export interface ExportRow {
+    timestamp: string; // ISO 8601 with timezone offset, e.g. "2024-03-01T07:30:00+01:00"
+    user: string;
+    measurement: string;
+    value: number;
+    unit: string;
+    source: IndexedSource;
+}
+
+/**
+ * Turns the indexed readings into CSV or JSON files for spreadsheets and notebooks
+ */
+export class ExportService {
+    private moment = (window as any).moment;
+
+    constructor(private app: App, private settings: Settings, private index: MeasurementIndex) { }
+
+    /**
+     * Unique readings matching the options, oldest first
+     */
+    getRows(options: ExportOptions): ExportRow[] {
+        // Journal lines carry no user, so only filter by user when there are several
+        const userId = this.settings.users.length > 1 ? options.userId || undefined : undefined;
+
+        return this.index.getReadings({ userId, from: options.from, to: options.to })
+            .filter(reading => options.measurements.includes(reading.measurement))
+            .map(reading => ({
+                timestamp: this.toIsoString(reading.timestamp),
+                user: this.getUserName(reading),
+                measurement: reading.measurement,
+                value: reading.value,
+                unit: reading.unit,
+                source: reading.kind
+            }));
+    }
+
+    /**
+     * File contents in the chosen format
+     */
+    serialize(options: ExportOptions): string {
+        const rows = this.getRows(options);
+
+        switch (options.format) {
+            case 'csv-wide':
+                return this.toWideCsv(rows, options);
+            case 'json':
+                return JSON.stringify(rows, null, 2) + '\n';
+            case 'jsonl':
+                return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+            default:
+                return this.toCsv([
+                    ['timestamp', 'user', 'measurement', 'value', 'unit', 'source'],
+                    ...rows.map(row => [row.timestamp, row.user, row.measurement, String(row.value), row.unit, row.source])
+                ]);
+        }
+    }
+
+    getFileName(options: ExportOptions): string {
+        const suffix = options.format === 'csv-wide' ? '-wide' : '';
+        return `body-tracker-${this.moment().format('YYYY-MM-DD-HHmm')}${suffix}.${EXPORT_FORMATS[options.format].extension}`;
+    }
+
+    /**
+     * Write the export into a vault folder, replacing a file of the same name
+     */
+    async writeToVault(folder: string, options: ExportOptions): Promise<TFile> {
+        const content = this.serialize(options);
+        const folderPath = folder.replace(/\/+$/, '');
+        const path = folderPath ? `${folderPath}/${this.getFileName(options)}` : this.getFileName(options);
+
+        if (folderPath) {
+            let currentPath = '';
+            for (const part of folderPath.split('/')) {
+                currentPath += (currentPath ? '/' : '') + part;
+                await this.app.vault.createFolder(currentPath).catch(() => { });
+            }
+        }
+
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            return existing;
+        }
+        return this.app.vault.create(path, content);
+    }
+
+    /**
+     * Offer the export as a download, which opens a save dialog on desktop
+     */
+    saveAs(options: ExportOptions) {
+        const { mimeType } = EXPORT_FORMATS[options.format];
+        const url = URL.createObjectURL(new Blob([this.serialize(options)], { type: mimeType }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = this.getFileName(options);
+        link.click();
+        // Give the browser a moment to start the download before releasing the data
+        window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    /**
+     * One row per user and time with a column per measurement. Values are converted to the
+     * unit in the column header, readings that don't convert are left out.
+     */
+    private toWideCsv(rows: ExportRow[], options: ExportOptions): string {
+        const system = getUserSystem(this.settings, options.userId || undefined);
+        const columns = options.measurements
+            .map(name => this.settings.measurements.find(m => m.name === name))
+            .filter((measurement): measurement is NonNullable<typeof measurement> => !!measurement)
+            .filter(measurement => rows.some(row => row.measurement === measurement.name))
+            .map(measurement => ({ measurement, unit: getDisplayUnit(measurement, this.settings, system) }));
+
+        const byTime = new Map<string, { timestamp: string, user: string, values: Record<string, string> }>();
+        for (const row of rows) {
+            const column = columns.find(c => c.measurement.name === row.measurement);
+            if (!column) continue;
+
+            const value = tryConvertMeasurementValue(column.measurement, row.value, row.unit, column.unit);
+            if (value === undefined) continue;
+
+            const key = `${row.timestamp}|${row.user}`;
+            if (!byTime.has(key)) byTime.set(key, { timestamp: row.timestamp, user: row.user, values: {} });
+            byTime.get(key)!.values[row.measurement] = String(Math.round(value * 100) / 100);
+        }
+
+        return this.toCsv([
+            ['timestamp', 'user', ...columns.map(c => c.unit ? `${c.measurement.name} (${c.unit})` : c.measurement.name)],
+            ...Array.from(byTime.values()).map(row => [
+                row.timestamp,
+                row.user,
+                ...columns.map(c => row.values[c.measurement.name] ?? '')
+            ])
+        ]);
+    }
+
+    private toCsv(rows: string[][]): string {
+        const escape = (cell: string) => /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        return rows.map(row => row.map(escape).join(',')).join('\n') + '\n';
+    }
+
+    private toIsoString(timestamp: number): string {
+        return this.moment(timestamp).format('YYYY-MM-DDTHH:mm:ss') + getTimezoneOffset(new Date(timestamp));
+    }
+
+    private getUserName(reading: IndexedMeasurement): string {
+        // Journal lines belong to the only user when there is just one
+        if (!reading.userId && this.settings.users.length === 1) return this.settings.users[0].name;
+        return reading.user;
+    }
+}
@@ -0,0 +1,172 @@
+import { Notice } from 'obsidian';
+import type { Goal, MeasurementRecord, Settings } from '../types';
+import type { MeasurementIndex } from './measurement-index';
+import type { JournalService } from './journal-service';
+import type { TrendService } from './trend-service';
+import { formatValue, getDisplayUnit, getUserSystem, tryConvertMeasurementValue } from '../units';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Readings used to estimate the current rate of progress
+const TREND_WINDOW_MS = 4 * WEEK_MS;
+
+export interface GoalProgress {
+    current?: number;
+    remaining?: number; // Distance to the target in the goal's unit, 0 once reached
+    percent?: number; // 0-100, from the start value towards the target
+    requiredWeeklyRate?: number; // Change per week needed to make the deadline
+    weeklyRate?: number; // Recent change per week
+    projectedDate?: string; // YYYY-MM-DD, when the recent trend reaches the target
+    reached: boolean;
+}
+
+/**
+ * Tracks progress towards per-user goals and announces reached ones
+ */
+export class GoalService {
+    private moment = (window as any).moment;
+
+    constructor(
+        private settings: Settings,
+        private index: MeasurementIndex,
+        private journalService: JournalService,
+        private trendService: TrendService,
+        private saveSettings: () => Promise<void>
+    ) { }
+
+    getGoals(userId?: string, measurement?: string): Goal[] {
+        return (this.settings.goals || []).filter(goal =>
+            (!userId || goal.userId === userId) && (!measurement || goal.measurement === measurement));
+    }
+
+    getProgress(goal: Goal): GoalProgress {
+        const readings = this.getReadings(goal);
+        const latest = readings[readings.length - 1];
+        if (!latest) {
+            return { reached: !!goal.reachedAt };
+        }
+
+        const current = latest.value;
+        const reached = this.isReached(goal, current);
+        const remaining = reached ? 0 : Math.abs(goal.target - current);
+
+        const start = goal.startValue ?? readings[0].value;
+        const total = Math.abs(goal.target - start);
+        const percent = total === 0 ? 100 : Math.min(100, Math.max(0, (1 - remaining / total) * 100));
+
+        const progress: GoalProgress = { current, remaining, percent, reached };
+
+        if (goal.deadline && !reached) {
+            const weeksLeft = (this.moment(goal.deadline, 'YYYY-MM-DD').valueOf() - Date.now()) / WEEK_MS;
+            if (weeksLeft > 0) {
+                progress.requiredWeeklyRate = (goal.target - current) / weeksLeft;
+            }
+        }
+
+        // Slope of recent readings
+        const slope = this.trendService.slope(readings.filter(r => r.timestamp >= latest.timestamp - TREND_WINDOW_MS));
+        if (slope !== undefined) {
+            progress.weeklyRate = slope * WEEK_MS;
+
+            // Only project when the trend is heading towards the target
+            const towards = goal.comparison === 'below' ? slope < 0 : slope > 0;
+            if (!reached && towards) {
+                const eta = latest.timestamp + (goal.target - current) / slope;
+                progress.projectedDate = this.moment(eta).format('YYYY-MM-DD');
+            }
+        }
+
+        return progress;
+    }
+
+    /**
+     * Short hint for the measurement modal, e.g. "2.3 kg to go"
+     */
+    getHint(goal: Goal): string {
+        const progress = this.getProgress(goal);
+        if (progress.reached) return 'Goal reached';
+        if (progress.remaining === undefined) return `Goal: ${this.format(goal.target, goal.unit)}`;
+
+        let hint = `${this.format(progress.remaining, goal.unit)} to go`;
+        if (goal.deadline) hint += ` by ${goal.deadline}`;
+        return hint;
+    }
+
+    /**
+     * Mark goals reached by newly written records, with a Notice and a journal line
+     */
+    async checkRecords(records: MeasurementRecord[]): Promise<void> {
+        let changed = false;
+
+        for (const goal of this.getGoals()) {
+            if (goal.reachedAt) continue;
+
+            for (const record of records) {
+                if (record.userId !== goal.userId || record[goal.measurement] === undefined) continue;
+                // Backfilled and imported readings from before the goal was set don't count
+                if (record.date.slice(0, 10) < goal.createdAt) continue;
+
+                const value = this.toGoalUnit(goal, parseFloat(record[goal.measurement]), record.userId);
+                if (value === undefined || !this.isReached(goal, value)) continue;
+
+                goal.reachedAt = record.date;
+                changed = true;
+
+                const user = this.settings.users.find(u => u.id === goal.userId);
+                const text = `🎯 Goal reached: ${goal.measurement} ${this.format(goal.target, goal.unit)}${user ? ` (${user.name})` : ''}`;
+                new Notice(text);
+                if (this.settings.enableJournalEntry) {
+                    await this.journalService.appendJournalLine(record.date, text, false);
+                }
+                break;
+            }
+        }
+
+        if (changed) {
+            await this.saveSettings();
+        }
+    }
+
+    /**
+     * The latest value of a measurement in the unit a new goal would use
+     */
+    getCurrentValue(userId: string, measurementName: string): { value?: number, unit: string } {
+        const measurement = this.settings.measurements.find(m => m.name === measurementName);
+        const unit = measurement ? getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, userId)) : '';
+        const latest = this.index.getLatest(measurementName, userId);
+        const value = latest && measurement
+            ? tryConvertMeasurementValue(measurement, latest.value, latest.unit, unit)
+            : undefined;
+        return { value, unit };
+    }
+
+    private isReached(goal: Goal, value: number): boolean {
+        return goal.comparison === 'below' ? value <= goal.target : value >= goal.target;
+    }
+
+    /**
+     * Readings since the goal was set, converted into the goal's unit
+     */
+    private getReadings(goal: Goal): Array<{ timestamp: number, value: number }> {
+        const measurement = this.settings.measurements.find(m => m.name === goal.measurement);
+        if (!measurement) return [];
+
+        const from = this.moment(goal.createdAt, 'YYYY-MM-DD').valueOf();
+        return this.index.getReadings({ measurement: goal.measurement, userId: goal.userId, from })
+            .flatMap(reading => {
+                const value = tryConvertMeasurementValue(measurement, reading.value, reading.unit, goal.unit);
+                return value === undefined ? [] : [{ timestamp: reading.timestamp, value }];
+            });
+    }
+
+    private toGoalUnit(goal: Goal, value: number, userId: string): number | undefined {
+        const measurement = this.settings.measurements.find(m => m.name === goal.measurement);
+        if (!measurement || isNaN(value)) return undefined;
+
+        const unit = getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, userId));
+        return tryConvertMeasurementValue(measurement, value, unit, goal.unit);
+    }
+
+    private format(value: number, unit: string): string {
+        return unit ? `${formatValue(value)} ${unit}` : formatValue(value);
+    }
+}
@@ -0,0 +1,157 @@
+import type { CsvImportService } from './csv-import-service';
+import { HealthFileImporter, HealthMetric, ImportScanOptions, ImportedSample } from './health-source';
+import { ZipArchive } from './zip-archive';
+
+// Fit data types in the "All Data" JSON files and the factor to each metric's canonical unit
+const FIT_DATA_TYPES: Record<string, { metric: HealthMetric, factor: number }> = {
+    'com.google.weight': { metric: 'weight', factor: 1 },
+    'com.google.body.fat.percentage': { metric: 'bodyFat', factor: 1 },
+    'com.google.height': { metric: 'height', factor: 100 } // Metres
+};
+
+// Columns of the daily activity metrics CSVs
+const FIT_CSV_COLUMNS: Array<{ pattern: RegExp, metric: HealthMetric }> = [
+    { pattern: /^average weight \(kg\)$/i, metric: 'weight' },
+    { pattern: /^average body fat percentage/i, metric: 'bodyFat' }
+];
+
+// The same readings appear in several files, only the most detailed kind is used per metric
+type FileKind =
+    | 'summary' // "Daily activity metrics.csv", one row per day
+    | 'intervals' // "2024-03-01.csv", one row per 15 minutes
+    | 'merged' // derived_com.google.weight_com.google.android.gms_merge_weight.json
+    | 'raw'; // raw_com.google.weight_com.withings.wiscale2.json, per app
+
+// Least to most detailed
+const FILE_KINDS: FileKind[] = ['summary', 'intervals', 'merged', 'raw'];
+
+/**
+ * Reads body measurements from the Fit folder of a Google Takeout export, as a zip or as
+ * the extracted JSON and CSV files, so history recorded through Google Fit can be imported
+ * without the Fit API
+ */
+export class GoogleTakeoutImporter implements HealthFileImporter {
+    readonly id = 'google-fit'; // Shares the sync ledger with the Google Fit API
+    readonly name = 'Google Takeout';
+    readonly instructions = 'Export "Fit" at takeout.google.com. Pick the Takeout zip, or the JSON files from "Fit/All Data" and the CSV files from "Fit/Daily activity metrics".';
+    readonly extensions = ['zip', 'json', 'csv'];
+    private moment = (window as any).moment;
+
+    constructor(private csv: CsvImportService) { }
+
+    async scan(files: Array<{ name: string, data: Blob }>, options: ImportScanOptions = {}): Promise<ImportedSample[]> {
+        const found: Array<{ sample: ImportedSample, kind: FileKind }> = [];
+
+        for (const file of files) {
+            if (options.isCancelled?.()) return [];
+
+            if (!file.name.toLowerCase().endsWith('.zip')) {
+                options.onProgress?.(file.name, 0, 1);
+                found.push(...this.readFile(file.name, await file.data.text()));
+                continue;
+            }
+
+            const archive = await ZipArchive.open(file.data);
+            const entries = archive.entries.filter(entry => /(^|\/)Fit\//.test(entry.name) && /\.(json|csv)$/i.test(entry.name));
+            for (let i = 0; i < entries.length; i++) {
+                if (options.isCancelled?.()) return [];
+                options.onProgress?.(file.name, i, entries.length);
+
+                const name = entries[i].name.split('/').pop()!;
+                // Skip the large activity files without decompressing them
+                if (!this.isSupported(name)) continue;
+                const text = new TextDecoder().decode(await archive.read(entries[i]));
+                found.push(...this.readFile(name, text));
+            }
+        }
+
+        // Keep the most detailed kind of file found for each metric
+        const best = new Map<HealthMetric, number>();
+        found.forEach(({ sample, kind }) => best.set(sample.metric, Math.max(best.get(sample.metric) ?? 0, FILE_KINDS.indexOf(kind))));
+
+        return found
+            .filter(({ sample, kind }) => best.get(sample.metric) === FILE_KINDS.indexOf(kind))
+            .map(({ sample }) => sample)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private isSupported(name: string): boolean {
+        return /\.csv$/i.test(name) || Object.keys(FIT_DATA_TYPES).some(type => name.includes(`_${type}_`));
+    }
+
+    private readFile(name: string, text: string): Array<{ sample: ImportedSample, kind: FileKind }> {
+        if (!this.isSupported(name)) return [];
+
+        try {
+            return name.toLowerCase().endsWith('.json') ? this.readJson(name, text) : this.readCsv(name, text);
+        } catch (error) {
+            console.error(`Failed to read ${name}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Data points of an "All Data" file, e.g. raw_com.google.weight_com.withings.wiscale2.json
+     */
+    private readJson(name: string, text: string): Array<{ sample: ImportedSample, kind: FileKind }> {
+        const type = Object.keys(FIT_DATA_TYPES).find(key => name.includes(`_${key}_`));
+        const raw = name.startsWith('raw_');
+        if (!type || (!raw && !name.includes('merge'))) return [];
+
+        const { metric, factor } = FIT_DATA_TYPES[type];
+        // The app that recorded the data follows the data type in raw file names
+        const sourceName = raw ? name.slice(name.indexOf(type) + type.length + 1).replace(/\.json$/i, '') : 'Google Fit';
+        const data = JSON.parse(text);
+        const points: any[] = data['Data Points'] || data.point || [];
+
+        return points.flatMap(point => {
+            const value = point.fitValue?.[0]?.value?.fpVal ?? point.value?.[0]?.fpVal;
+            if (typeof value !== 'number') return [];
+
+            return [{
+                sample: {
+                    metric,
+                    timestamp: Math.floor(parseInt(point.startTimeNanos) / 1000000000),
+                    value: value * factor,
+                    sourceName
+                },
+                kind: raw ? 'raw' : 'merged'
+            }];
+        });
+    }
+
+    /**
+     * Averages from "Daily activity metrics.csv" or the per-day files next to it
+     */
+    private readCsv(name: string, text: string): Array<{ sample: ImportedSample, kind: FileKind }> {
+        const rows = this.csv.parse(text);
+        const header = (rows[0] || []).map(cell => cell.trim());
+        const day = /^(\d{4}-\d{2}-\d{2})\.csv$/i.exec(name)?.[1];
+        const dateColumn = header.findIndex(cell => /^date$/i.test(cell));
+        const startColumn = header.findIndex(cell => /^start time$/i.test(cell));
+        const columns = FIT_CSV_COLUMNS
+            .map(({ pattern, metric }) => ({ index: header.findIndex(cell => pattern.test(cell)), metric }))
+            .filter(column => column.index >= 0);
+        if (columns.length === 0 || (day ? startColumn < 0 : dateColumn < 0)) return [];
+
+        const samples: Array<{ sample: ImportedSample, kind: FileKind }> = [];
+        for (const row of rows.slice(1)) {
+            // Interval files have times like "07:30:00.000+01:00", the summary a date per row
+            const date = day
+                ? this.moment(`${day}T${row[startColumn]}`, this.moment.ISO_8601, true)
+                : this.moment(row[dateColumn], 'YYYY-MM-DD', true);
+            if (!date.isValid()) continue;
+
+            for (const { index, metric } of columns) {
+                const value = parseFloat(row[index]);
+                if (isNaN(value)) continue;
+
+                samples.push({
+                    sample: { metric, timestamp: date.unix(), value, sourceName: 'Google Fit' },
+                    kind: day ? 'intervals' : 'summary'
+                });
+            }
+        }
+        return samples;
+    }
+}
@@ -1,6 +1,7 @@
 import { request, Notice, App } from 'obsidian';
-import type { Settings } from '../types';
+import type { Settings, PendingFitWrite } from '../types';
 import { OAuthCallbackServer } from './oauth-server';
+import type { HealthSample, HealthSource } from './health-source';
 
 interface GoogleFitAuthConfig {
     clientId: string;
@@ -20,12 +21,17 @@ interface GoogleFitServiceConfig extends GoogleFitAuthConfig {
     app: App;
 }
 
+const DATA_STREAM_NAME = 'ObsidianBodyTracker';
+const MAX_WRITE_ATTEMPTS = 5;
+
 const SCOPES = [
     'https://www.googleapis.com/auth/fitness.body.read',
     'https://www.googleapis.com/auth/fitness.body.write'
 ];
 
-export class GoogleFitService {
+export class GoogleFitService implements HealthSource {
+    readonly id = 'google-fit';
+    readonly name = 'Google Fit';
     private settings: Settings;
     private clientId: string;
     private clientSecret: string;
@@ -34,6 +40,7 @@ export class GoogleFitService {
     private onSettingsChange: (settings: Settings) => Promise<void>;
     private app: App;
     private lastRequestTime = 0;
+    private dataSourceIds = new Map<string, string>();
     private readonly minRequestInterval = 1000; // 1 second between requests
     readonly oauthServer: OAuthCallbackServer;
     private moment = (window as any).moment;
@@ -300,6 +307,26 @@ export class GoogleFitService {
         }
     }
 
+    isConnected(): boolean {
+        return !!this.settings.googleAccessToken || !!this.settings.googleRefreshToken;
+    }
+
+    async fetchSamples(startTime: number, endTime: number): Promise<HealthSample[]> {
+        const measurements = await this.getMeasurements(startTime, endTime);
+        const samples: HealthSample[] = [];
+
+        for (const measurement of measurements) {
+            if (measurement.weight) {
+                samples.push({ metric: 'weight', timestamp: measurement.date, value: measurement.weight });
+            }
+            if (measurement.bodyFat) {
+                samples.push({ metric: 'bodyFat', timestamp: measurement.date, value: measurement.bodyFat });
+            }
+        }
+
+        return samples;
+    }
+
     async getMeasurements(startTime: number, endTime: number): Promise<GoogleFitMeasurement[]> {
         await this.rateLimit();
         await this.refreshTokenIfNeeded();
@@ -335,6 +362,7 @@ export class GoogleFitService {
             }
 
             // Get body fat data
+            await this.rateLimit();
             const bodyFatResponse = await request({
                 url: `https://www.googleapis.com/fitness/v1/users/me/dataSources/derived:com.google.body.fat.percentage:com.google.android.gms:merge_body_fat_percentage/datasets/${startTimeNs}-${endTimeNs}`,
                 method: 'GET',
@@ -371,61 +399,146 @@ export class GoogleFitService {
         }
     }
 
-    async addMeasurement(date: number, weight: number, bodyFat?: number): Promise<void> {
-        await this.rateLimit();
-        await this.refreshTokenIfNeeded();
-
-        const nanos = `${date}000000000`;
+    /**
+     * Find or create the raw data source this plugin writes points to.
+     * Google Fit does not accept writes to its merged (derived) data sources.
+     */
+    private async getWritableDataSourceId(dataTypeName: string, fieldName: string): Promise<string> {
+        const cached = this.dataSourceIds.get(dataTypeName);
+        if (cached) return cached;
+
+        const headers = {
+            'Authorization': `Bearer ${this.settings.googleAccessToken}`,
+            'Content-Type': 'application/json'
+        };
+
+        const listResponse = await request({
+            url: `https://www.googleapis.com/fitness/v1/users/me/dataSources?dataTypeName=${dataTypeName}`,
+            method: 'GET',
+            headers
+        });
+        const existing = (JSON.parse(listResponse).dataSource || [])
+            .find((source: any) => source.type === 'raw' && source.dataStreamName === DATA_STREAM_NAME);
 
-        try {
-            // Add weight measurement
-            await request({
-                url: `https://www.googleapis.com/fitness/v1/users/me/dataSources/derived:com.google.weight:com.google.android.gms:merge_weight/datasets/${nanos}-${nanos}`,
-                method: 'PATCH',
-                headers: {
-                    'Authorization': `Bearer ${this.settings.googleAccessToken}`,
-                    'Content-Type': 'application/json'
-                },
+        let dataSourceId: string = existing?.dataStreamId;
+        if (!dataSourceId) {
+            const createResponse = await request({
+                url: 'https://www.googleapis.com/fitness/v1/users/me/dataSources',
+                method: 'POST',
+                headers,
                 body: JSON.stringify({
-                    dataSourceId: 'derived:com.google.weight:com.google.android.gms:merge_weight',
-                    point: [{
-                        startTimeNanos: nanos,
-                        endTimeNanos: nanos,
-                        dataTypeName: 'com.google.weight',
-                        value: [{
-                            fpVal: weight
-                        }]
-                    }]
+                    dataStreamName: DATA_STREAM_NAME,
+                    type: 'raw',
+                    application: { name: 'Obsidian Body Tracker' },
+                    dataType: {
+                        name: dataTypeName,
+                        field: [{ name: fieldName, format: 'floatPoint' }]
+                    }
                 })
             });
+            dataSourceId = JSON.parse(createResponse).dataStreamId;
+        }
 
-            // Add body fat measurement if provided
-            if (bodyFat !== undefined) {
-                await request({
-                    url: `https://www.googleapis.com/fitness/v1/users/me/dataSources/derived:com.google.body.fat.percentage:com.google.android.gms:merge_body_fat_percentage/datasets/${nanos}-${nanos}`,
-                    method: 'PATCH',
-                    headers: {
-                        'Authorization': `Bearer ${this.settings.googleAccessToken}`,
-                        'Content-Type': 'application/json'
-                    },
-                    body: JSON.stringify({
-                        dataSourceId: 'derived:com.google.body.fat.percentage:com.google.android.gms:merge_body_fat_percentage',
-                        point: [{
-                            startTimeNanos: nanos,
-                            endTimeNanos: nanos,
-                            dataTypeName: 'com.google.body.fat.percentage',
-                            value: [{
-                                fpVal: bodyFat
-                            }]
-                        }]
-                    })
-                });
-            }
+        this.dataSourceIds.set(dataTypeName, dataSourceId);
+        return dataSourceId;
+    }
+
+    private async writeDataPoint(dataTypeName: string, fieldName: string, date: number, value: number): Promise<void> {
+        const dataSourceId = await this.getWritableDataSourceId(dataTypeName, fieldName);
+        const nanos = `${date}000000000`;
 
+        await request({
+            url: `https://www.googleapis.com/fitness/v1/users/me/dataSources/${encodeURIComponent(dataSourceId)}/datasets/${nanos}-${nanos}`,
+            method: 'PATCH',
+            headers: {
+                'Authorization': `Bearer ${this.settings.googleAccessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                dataSourceId,
+                minStartTimeNs: nanos,
+                maxEndTimeNs: nanos,
+                point: [{
+                    startTimeNanos: nanos,
+                    endTimeNanos: nanos,
+                    dataTypeName,
+                    value: [{
+                        fpVal: value
+                    }]
+                }]
+            })
+        });
+    }
+
+    /**
+     * Write weight (kg) and/or body fat (%) points at the given Unix time
+     */
+    async addMeasurement(date: number, weight?: number, bodyFat?: number): Promise<void> {
+        await this.rateLimit();
+        await this.refreshTokenIfNeeded();
+
+        if (weight !== undefined) {
+            await this.writeDataPoint('com.google.weight', 'weight', date, weight);
+        }
+        if (bodyFat !== undefined) {
+            await this.writeDataPoint('com.google.body.fat.percentage', 'percentage', date, bodyFat);
+        }
+    }
+
+    /**
+     * Push a measurement, queueing it for a later retry if the request fails.
+     * Returns whether the push succeeded immediately.
+     */
+    async pushMeasurement(date: number, weight?: number, bodyFat?: number): Promise<boolean> {
+        try {
+            await this.addMeasurement(date, weight, bodyFat);
             new Notice('Measurements added to Google Fit');
+            return true;
         } catch (error) {
-            new Notice('Failed to add measurements to Google Fit');
-            throw error;
+            console.error('Failed to add measurements to Google Fit, queued for retry:', error);
+            this.settings.googlePendingWrites = [
+                ...(this.settings.googlePendingWrites || []),
+                { date, weight, bodyFat, attempts: 1 }
+            ];
+            await this.onSettingsChange(this.settings);
+            new Notice('Failed to add measurements to Google Fit. They will be retried on the next sync.');
+            return false;
+        }
+    }
+
+    /**
+     * Retry queued writes. Writes that keep failing are dropped after MAX_WRITE_ATTEMPTS.
+     */
+    async flushPendingWrites(): Promise<void> {
+        const pending = this.settings.googlePendingWrites || [];
+        if (pending.length === 0) return;
+
+        const remaining: PendingFitWrite[] = [];
+        let sent = 0;
+        let dropped = 0;
+        for (const write of pending) {
+            try {
+                await this.addMeasurement(write.date, write.weight, write.bodyFat);
+                sent++;
+            } catch (error) {
+                write.attempts++;
+                if (write.attempts < MAX_WRITE_ATTEMPTS) {
+                    remaining.push(write);
+                } else {
+                    console.error('Giving up on Google Fit write after repeated failures:', write, error);
+                    dropped++;
+                }
+            }
+        }
+
+        this.settings.googlePendingWrites = remaining;
+        await this.onSettingsChange(this.settings);
+
+        if (sent > 0) {
+            new Notice(`Sent ${sent} queued measurement${sent === 1 ? '' : 's'} to Google Fit`);
+        }
+        if (dropped > 0) {
+            new Notice(`Gave up sending ${dropped} measurement${dropped === 1 ? '' : 's'} to Google Fit after ${MAX_WRITE_ATTEMPTS} attempts. They are still in your vault.`);
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+import { HealthFileImporter, HealthMetric, ImportScanOptions, ImportedSample } from './health-source';
+import { SqliteReader } from './sqlite-reader';
+import { ZipArchive } from './zip-archive';
+
+export const HEALTH_CONNECT_SOURCE_ID = 'health-connect';
+
+// Record tables of the exported database, the value column and the factor to the canonical unit
+const HEALTH_CONNECT_TABLES: Array<{ table: string, column: string, metric: HealthMetric, factor: number }> = [
+    { table: 'weight_record_table', column: 'weight', metric: 'weight', factor: 0.001 }, // Grams
+    { table: 'body_fat_record_table', column: 'percentage', metric: 'bodyFat', factor: 1 },
+    { table: 'lean_body_mass_record_table', column: 'mass', metric: 'leanMass', factor: 0.001 }, // Grams
+    { table: 'height_record_table', column: 'height', metric: 'height', factor: 100 } // Metres
+];
+
+/**
+ * Reads body measurements from a Health Connect export, the zip written by the app or the
+ * health_connect_export.db inside it
+ */
+export class HealthConnectImporter implements HealthFileImporter {
+    readonly id = HEALTH_CONNECT_SOURCE_ID;
+    readonly name = 'Health Connect';
+    readonly instructions = 'In Health Connect, open "Backup and restore" and choose "Export data". Pick the exported zip, or the health_connect_export.db inside it.';
+    readonly extensions = ['zip', 'db'];
+
+    async scan(files: Array<{ name: string, data: Blob }>, options: ImportScanOptions = {}): Promise<ImportedSample[]> {
+        const samples: ImportedSample[] = [];
+
+        for (const file of files) {
+            if (options.isCancelled?.()) return [];
+
+            let buffer: ArrayBuffer;
+            if (file.name.toLowerCase().endsWith('.zip')) {
+                const archive = await ZipArchive.open(file.data);
+                const entry = archive.find(name => name.toLowerCase().endsWith('.db'));
+                if (!entry) throw new Error(`No database in ${file.name}`);
+
+                buffer = await archive.read(entry, bytes => options.onProgress?.(file.name, bytes, entry.compressedSize));
+            } else {
+                options.onProgress?.(file.name, 0, 1);
+                buffer = await file.data.arrayBuffer();
+            }
+
+            if (options.isCancelled?.()) return [];
+            samples.push(...this.readDatabase(new SqliteReader(buffer), file.name));
+        }
+
+        return samples.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private readDatabase(database: SqliteReader, fileName: string): ImportedSample[] {
+        const tableNames = database.getTableNames();
+        const tables = HEALTH_CONNECT_TABLES.filter(({ table }) => tableNames.includes(table));
+        if (tables.length === 0) throw new Error(`No body measurements in ${fileName}`);
+
+        // Records point to the app that wrote them
+        const apps = new Map<number, string>();
+        for (const row of database.readTable('application_info_table')) {
+            const name = row.app_name || row.package_name;
+            if (typeof row.row_id === 'number' && typeof name === 'string') apps.set(row.row_id, name);
+        }
+
+        const samples: ImportedSample[] = [];
+        for (const { table, column, metric, factor } of tables) {
+            for (const row of database.readTable(table)) {
+                const value = row[column];
+                // Times are milliseconds since the epoch
+                if (typeof value !== 'number' || typeof row.time !== 'number') continue;
+
+                samples.push({
+                    metric,
+                    timestamp: Math.floor(row.time / 1000),
+                    value: value * factor,
+                    sourceName: (typeof row.app_info_id === 'number' && apps.get(row.app_info_id)) || 'Health Connect'
+                });
+            }
+        }
+        return samples;
+    }
+}
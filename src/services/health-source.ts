@@ -0,0 +1,85 @@
+export type HealthMetric = 'weight' | 'bodyFat' | 'fatMass' | 'leanMass' | 'height' | 'waist' | 'bmi';
+
+/**
+ * A single reading returned by a provider. Values are always in the metric's
+ * canonical unit (see HEALTH_METRIC_UNITS) so the sync engine can convert them.
+ */
+export interface HealthSample {
+    metric: HealthMetric;
+    timestamp: number; // Unix seconds
+    value: number;
+}
+
+/**
+ * Common interface implemented by every provider the sync engine can pull from
+ */
+export interface HealthSource {
+    readonly id: string;
+    readonly name: string;
+    isConnected(): boolean;
+    fetchSamples(startTime: number, endTime: number): Promise<HealthSample[]>;
+    // Retry any outbound writes the source queued while offline
+    flushPendingWrites?(): Promise<void>;
+}
+
+/**
+ * A sample read from an export file, with the app or device that recorded it
+ */
+export interface ImportedSample extends HealthSample {
+    sourceName: string; // e.g. "Withings" or "Alice's iPhone"
+}
+
+export interface ImportScanOptions {
+    onProgress?: (fileName: string, done: number, total: number) => void; // Bytes or files read
+    isCancelled?: () => boolean;
+}
+
+/**
+ * Reads samples from the export files of a provider, for imports without an API connection
+ */
+export interface HealthFileImporter {
+    readonly id: string; // Source ID for the sync ledger and linked profiles
+    readonly name: string;
+    readonly instructions: string; // How to get the export, shown before picking files
+    readonly extensions: string[]; // File types that can be picked, without the dot
+    // Every supported sample in the files, oldest first. Returns nothing when cancelled.
+    scan(files: Array<{ name: string, data: Blob }>, options?: ImportScanOptions): Promise<ImportedSample[]>;
+}
+
+export const HEALTH_METRIC_UNITS: Record<HealthMetric, 'kg' | '%' | 'cm' | ''> = {
+    weight: 'kg',
+    bodyFat: '%',
+    fatMass: 'kg',
+    leanMass: 'kg',
+    height: 'cm',
+    waist: 'cm',
+    bmi: ''
+};
+
+export const HEALTH_METRIC_LABELS: Record<HealthMetric, string> = {
+    weight: 'Weight',
+    bodyFat: 'Body Fat Percentage',
+    fatMass: 'Fat Mass',
+    leanMass: 'Lean Mass',
+    height: 'Height',
+    waist: 'Waist Circumference',
+    bmi: 'Body Mass Index'
+};
+
+export const DEFAULT_METRIC_MAPPING: Record<HealthMetric, string> = {
+    weight: 'Weight',
+    bodyFat: 'Body Fat',
+    fatMass: 'Fat Mass',
+    leanMass: 'Lean Mass',
+    height: 'Height',
+    waist: 'Waist',
+    bmi: 'BMI'
+};
+
+// Every source a user profile can be linked to, by source ID
+export const HEALTH_SOURCE_NAMES: Record<string, string> = {
+    'google-fit': 'Google Fit',
+    withings: 'Withings',
+    'apple-health': 'Apple Health',
+    'health-connect': 'Health Connect'
+};
@@ -0,0 +1,121 @@
+import { App, TFile } from 'obsidian';
+import type { Settings } from '../types';
+import type { IndexedMeasurement, MeasurementIndex } from './measurement-index';
+import type { MeasurementService } from './measurement-service';
+import { formatValue, tryConvertMeasurementValue } from '../units';
+import { getPropertyKey } from './journal-service';
+
+/**
+ * Edits and deletes past readings everywhere they were written
+ */
+export class HistoryService {
+    constructor(
+        private app: App,
+        private settings: Settings,
+        private index: MeasurementIndex,
+        private measurementService: MeasurementService
+    ) { }
+
+    /**
+     * Change the value of a reading, given in the reading's unit. Returns the number of lines changed.
+     */
+    async updateReading(reading: IndexedMeasurement, value: number): Promise<number> {
+        const measurement = this.settings.measurements.find(m => m.name === reading.measurement);
+        if (!measurement) return 0;
+
+        return this.rewriteCopies(reading, (copy, line) => {
+            // Copies written before a system switch may be in other units
+            const converted = tryConvertMeasurementValue(measurement, value, reading.unit, copy.unit);
+            if (converted === undefined) return line;
+            return this.index.replaceValue(copy, line, formatValue(converted)) ?? line;
+        });
+    }
+
+    /**
+     * Remove a reading from every file. Returns the number of lines removed.
+     */
+    async deleteReading(reading: IndexedMeasurement): Promise<number> {
+        return this.rewriteCopies(reading, () => undefined);
+    }
+
+    /**
+     * Apply a change to each line holding a copy of the reading. Returning undefined removes the line.
+     * Lines edited since they were indexed are left alone.
+     */
+    private async rewriteCopies(
+        reading: IndexedMeasurement,
+        change: (copy: IndexedMeasurement, line: string) => string | undefined
+    ): Promise<number> {
+        const copiesByFile = new Map<string, IndexedMeasurement[]>();
+        for (const copy of this.index.getCopies(reading)) {
+            if (!copiesByFile.has(copy.path)) copiesByFile.set(copy.path, []);
+            copiesByFile.get(copy.path)!.push(copy);
+        }
+
+        let changed = 0;
+        for (const [path, copies] of Array.from(copiesByFile.entries())) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            const content = await this.app.vault.read(file);
+            const lines = content.split('\n');
+            const current = this.index.parseContent(path, content);
+            let fileChanged = 0;
+
+            // Bottom up so removing a line doesn't shift the ones still to change
+            for (const copy of copies.sort((a, b) => b.line - a.line)) {
+                const stillThere = current.some(entry =>
+                    entry.line === copy.line && entry.value === copy.value && entry.timestamp === copy.timestamp);
+                if (!stillThere) continue;
+
+                const updated = change(copy, lines[copy.line]);
+                if (updated === lines[copy.line]) continue;
+
+                if (updated === undefined) {
+                    lines.splice(copy.line, 1);
+                } else {
+                    lines[copy.line] = updated;
+                }
+                fileChanged++;
+            }
+
+            if (fileChanged === 0) continue;
+            changed += fileChanged;
+            const newContent = lines.join('\n');
+            await this.app.vault.modify(file, newContent);
+
+            if (copies[0].kind === 'measurement') {
+                await this.measurementService.rebuildTrends(file, copies[0].unit);
+                await this.measurementService.rebuildChart(file, copies[0].unit);
+            }
+            if (copies[0].kind === 'journal') {
+                await this.updateProperty(file, reading, newContent);
+            }
+        }
+
+        return changed;
+    }
+
+    /**
+     * Point the journal's frontmatter property at the reading's last line left on that day,
+     * or remove it when there is none
+     */
+    private async updateProperty(file: TFile, reading: IndexedMeasurement, content: string): Promise<void> {
+        const measurement = this.settings.measurements.find(m => m.name === reading.measurement);
+        if (!measurement) return;
+
+        const key = getPropertyKey(this.settings, measurement, reading.userId);
+        const remaining = this.index.parseContent(file.path, content).filter(entry =>
+            entry.measurement === reading.measurement && (!entry.userId || entry.userId === reading.userId));
+        const latest = remaining[remaining.length - 1];
+
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            if (frontmatter[key] === undefined) return;
+            if (latest) {
+                frontmatter[key] = latest.value;
+            } else {
+                delete frontmatter[key];
+            }
+        });
+    }
+}
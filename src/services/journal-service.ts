@@ -1,5 +1,26 @@
 import { App, TFile, Notice } from 'obsidian';
-import type { Settings, MeasurementRecord } from '../types';
+import type { Settings, Measurement, MeasurementRecord } from '../types';
+import { getDisplayUnit, getUserSystem, replaceUnitPlaceholder } from '../units';
+
+/**
+ * Property key of a measurement, e.g. "body_fat" for Body Fat
+ */
+export function getPropertyName(measurement: Measurement): string {
+    return measurement.propertyName || toPropertyKey(measurement.name);
+}
+
+/**
+ * Property or inline field key for a measurement, prefixed with the user's name when there are several users
+ */
+export function getPropertyKey(settings: Settings, measurement: Measurement, userId?: string): string {
+    const user = settings.users.find(u => u.id === userId);
+    const key = getPropertyName(measurement);
+    return user && settings.users.length > 1 ? `${toPropertyKey(user.name)}_${key}` : key;
+}
+
+function toPropertyKey(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
 
 export class JournalService {
     private moment = (window as any).moment;
@@ -36,30 +57,48 @@ export class JournalService {
         return lines.some(line => normalizeEntry(line) === normalizedEntry);
     }
 
-    async appendToJournal(data: MeasurementRecord): Promise<void> {
-        // Parse the full date-time string to preserve local time
-        const dateTime = this.moment(data.date, 'YYYY-MM-DD HH:mm');
-        const journalPath = this.getJournalPath(dateTime);
-        await this.createJournalPath(journalPath);
+    /**
+     * Append records to their daily journals, reading and writing each journal only once
+     */
+    async appendToJournal(records: MeasurementRecord[], notify = true): Promise<void> {
+        // Collect entries and properties per journal file
+        const pending = new Map<string, { journalPath: string, entries: Array<{ name: string, entry: string }> }>();
+        const properties = new Map<string, { [key: string]: { value: number, date: string } }>();
+
+        for (const data of records) {
+            // Parse the full date-time string to preserve local time
+            const dateTime = this.moment(data.date, 'YYYY-MM-DD HH:mm');
+            const journalPath = this.getJournalPath(dateTime);
 
-        // Get journal file name for the date, using local date components
-        const fileName = dateTime.format(this.settings.journalNameFormat) + '.md';
-        const filePath = `${journalPath}/${fileName}`;
+            // Get journal file name for the date, using local date components
+            const fileName = dateTime.format(this.settings.journalNameFormat) + '.md';
+            const filePath = `${journalPath}/${fileName}`;
 
-        // Create entries for each measurement
-        for (const measurement of this.settings.measurements) {
-            const value = data[measurement.name];
-            if (value !== undefined) {
-                // Get the appropriate unit based on measurement type and system
-                const unit = measurement.type === 'weight'
-                    ? (this.settings.measurementSystem === 'metric' ? 'kg' : 'lbs')
-                    : (this.settings.measurementSystem === 'metric' ? 'cm' : 'in');
+            // Create entries for each measurement
+            for (const measurement of this.settings.measurements) {
+                const value = data[measurement.name];
+                if (value === undefined) continue;
+
+                // Get the appropriate unit based on measurement type and the user's system
+                const unit = getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, data.userId));
 
                 // Format the entry using the template and add task prefix
-                const entryContent = this.settings.journalEntryTemplate
+                let entryContent = replaceUnitPlaceholder(this.settings.journalEntryTemplate, unit)
                     .replace(/<measured>/g, measurement.name)
-                    .replace(/<measure>/g, value)
-                    .replace(/<unit>/g, unit);
+                    .replace(/<measure>/g, value);
+
+                // Query plugins read values from inline fields or frontmatter properties
+                const key = getPropertyKey(this.settings, measurement, data.userId);
+                if (this.settings.journalFieldMode === 'inline') {
+                    entryContent += ` [${key}:: ${value}]`;
+                } else if (this.settings.journalFieldMode === 'frontmatter' && !isNaN(parseFloat(value))) {
+                    if (!properties.has(filePath)) properties.set(filePath, {});
+                    const fileProperties = properties.get(filePath)!;
+                    // The latest reading of the day wins
+                    if (!fileProperties[key] || fileProperties[key].date <= data.date) {
+                        fileProperties[key] = { value: parseFloat(value), date: data.date };
+                    }
+                }
 
                 let entry = `- [${this.settings.stringPrefixLetter}] ${entryContent}`;
 
@@ -67,35 +106,83 @@ export class JournalService {
                     entry = `> ${entry}`;
                 }
 
-                // Append to journal file
-                let fileContent = '';
-                const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-                if (existingFile instanceof TFile) {
-                    fileContent = await this.app.vault.read(existingFile);
+                if (!pending.has(filePath)) {
+                    pending.set(filePath, { journalPath, entries: [] });
                 }
+                pending.get(filePath)!.entries.push({ name: measurement.name, entry });
+            }
+        }
 
-                // Only add the entry if it doesn't already exist
-                if (!this.hasExistingEntry(fileContent, entry)) {
-                    // Add the entry, ensuring no blank lines if in a callout
-                    if (fileContent) {
-                        if (this.settings.enableJournalEntryCallout) {
-                            // Remove any trailing newlines to avoid breaking the callout
-                            fileContent = fileContent.replace(/\n+$/, '') + '\n';
-                        } else if (!fileContent.endsWith('\n')) {
-                            fileContent += '\n';
-                        }
-                    }
-                    fileContent += entry + '\n';
-
-                    if (existingFile instanceof TFile) {
-                        await this.app.vault.modify(existingFile, fileContent);
-                        new Notice(`Added ${measurement.name} to journal`);
-                    } else {
-                        await this.app.vault.create(filePath, fileContent);
-                        new Notice(`Created journal with ${measurement.name}`);
-                    }
+        for (const [filePath, { journalPath, entries }] of Array.from(pending.entries())) {
+            await this.writeJournalEntries(filePath, journalPath, entries, notify);
+
+            const fileProperties = properties.get(filePath);
+            const file = this.app.vault.getAbstractFileByPath(filePath);
+            if (fileProperties && file instanceof TFile) {
+                await this.app.fileManager.processFrontMatter(file, frontmatter => {
+                    Object.entries(fileProperties).forEach(([key, { value }]) => frontmatter[key] = value);
+                });
+            }
+        }
+    }
+
+    /**
+     * Add a free-form task line, e.g. a reached goal, to the journal of a date.
+     * Uses the measurement prefix letter unless another task marker is given, e.g. ' ' for an open task.
+     */
+    async appendJournalLine(date: string, text: string, notify = true, marker = this.settings.stringPrefixLetter): Promise<void> {
+        const dateTime = this.moment(date, ['YYYY-MM-DD HH:mm', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DD']);
+        const journalPath = this.getJournalPath(dateTime);
+        const filePath = `${journalPath}/${dateTime.format(this.settings.journalNameFormat)}.md`;
+
+        let entry = `- [${marker}] ${text}`;
+        if (this.settings.enableJournalEntryCallout) {
+            entry = `> ${entry}`;
+        }
+
+        await this.writeJournalEntries(filePath, journalPath, [{ name: text, entry }], notify);
+    }
+
+    private async writeJournalEntries(
+        filePath: string,
+        journalPath: string,
+        entries: Array<{ name: string, entry: string }>,
+        notify: boolean
+    ): Promise<void> {
+        await this.createJournalPath(journalPath);
+
+        // Append to journal file
+        let fileContent = '';
+        const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+        if (existingFile instanceof TFile) {
+            fileContent = await this.app.vault.read(existingFile);
+        }
+
+        // Only add entries that don't already exist
+        const added: string[] = [];
+        for (const { name, entry } of entries) {
+            if (this.hasExistingEntry(fileContent, entry)) continue;
+
+            // Add the entry, ensuring no blank lines if in a callout
+            if (fileContent) {
+                if (this.settings.enableJournalEntryCallout) {
+                    // Remove any trailing newlines to avoid breaking the callout
+                    fileContent = fileContent.replace(/\n+$/, '') + '\n';
+                } else if (!fileContent.endsWith('\n')) {
+                    fileContent += '\n';
                 }
             }
+            fileContent += entry + '\n';
+            added.push(name);
+        }
+        if (added.length === 0) return;
+
+        if (existingFile instanceof TFile) {
+            await this.app.vault.modify(existingFile, fileContent);
+            if (notify) new Notice(`Added ${added.join(', ')} to journal`);
+        } else {
+            await this.app.vault.create(filePath, fileContent);
+            if (notify) new Notice(`Created journal with ${added.join(', ')}`);
         }
     }
 
@@ -109,7 +196,13 @@ export class JournalService {
         }
     }
 
-    public async appendToBodyNote(data: MeasurementRecord, measurement: string): Promise<void> {
+    /**
+     * Append records to a measurement's body note with a single write
+     */
+    public async appendToBodyNote(records: MeasurementRecord[], measurement: string, notify = true): Promise<void> {
+        const relevant = records.filter(data => data[measurement] !== undefined);
+        if (relevant.length === 0) return;
+
         try {
             if (!this.settings.bodyNotesFolder) {
                 throw new Error('Body notes folder not configured');
@@ -129,7 +222,7 @@ export class JournalService {
                     : `# ${measurement} Tracking\n\n| Date | Time | User | Measurement |\n|------|------|------|-------------|\n`;
 
                 file = await this.app.vault.create(notePath, initialContent);
-                new Notice(`Created ${measurement} note`);
+                if (notify) new Notice(`Created ${measurement} note`);
             }
 
             // Ensure file is ready
@@ -139,26 +232,36 @@ export class JournalService {
 
             // Read existing content
             let content = await this.app.vault.read(file);
+            let added = 0;
+
+            const config = this.settings.measurements.find(m => m.name === measurement);
+
+            for (const data of relevant) {
+                const unit = config ? getDisplayUnit(config, this.settings, getUserSystem(this.settings, data.userId)) : '';
+
+                // Format the date and time
+                const dateTime = this.moment(data.date);
+                const date = dateTime.format('YYYY-MM-DD');
+                const time = dateTime.format('HH:mm');
+                const user = this.settings.users.find(u => u.id === data.userId)?.name || 'Unknown';
+
+                // Format the entry using the template
+                const entry = replaceUnitPlaceholder(this.settings.bodyNoteEntryTemplate, unit)
+                    .replace(/<date>/g, date)
+                    .replace(/<time>/g, time)
+                    .replace(/<user>/g, user)
+                    .replace(/<measure>/g, data[measurement]);
+
+                // Only add if we don't already have this entry
+                if (!this.hasExistingEntry(content, entry)) {
+                    content = content.trim() + '\n' + entry;
+                    added++;
+                }
+            }
 
-            // Format the date and time
-            const dateTime = this.moment(data.date);
-            const date = dateTime.format('YYYY-MM-DD');
-            const time = dateTime.format('HH:mm');
-            const user = this.settings.users.find(u => u.id === data.userId)?.name || 'Unknown';
-
-            // Format the entry using the template
-            const entry = this.settings.bodyNoteEntryTemplate
-                .replace(/<date>/g, date)
-                .replace(/<time>/g, time)
-                .replace(/<user>/g, user)
-                .replace(/<measure>/g, data[measurement])
-                .replace(/<unit>/g, data[`${measurement}_unit`] || '');
-
-            // Only add if we don't already have this entry
-            if (!this.hasExistingEntry(content, entry)) {
-                content = content.trim() + '\n' + entry;
+            if (added > 0) {
                 await this.app.vault.modify(file, content);
-                new Notice(`Updated ${measurement} note`);
+                if (notify) new Notice(`Updated ${measurement} note`);
             }
 
         } catch (error) {
@@ -166,4 +269,4 @@ export class JournalService {
             throw error;
         }
     }
-}
\ No newline at end of file
+}
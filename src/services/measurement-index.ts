@@ -0,0 +1,418 @@
+import { App, Events, TAbstractFile, TFile, debounce } from 'obsidian';
+import type { Measurement, Settings, User } from '../types';
+import { formatValue, getDimension, getDisplayUnit, getUserSystem, normalizeUnit, tryConvertMeasurementValue } from '../units';
+import { getPropertyKey } from './journal-service';
+
+export type IndexedSource = 'measurement' | 'body' | 'journal';
+
+/**
+ * A single value read back from the vault
+ */
+export interface IndexedMeasurement {
+    measurement: string;
+    userId?: string; // Unknown for journal entries of several users without inline fields
+    user: string; // User name as written in the note
+    date: string; // As written, e.g. "2024-03-01 07:30"
+    timestamp: number; // Unix milliseconds
+    value: number;
+    unit: string;
+    kind: IndexedSource;
+    path: string;
+    line: number;
+}
+
+export interface MeasurementQuery {
+    measurement?: string;
+    userId?: string;
+    kinds?: IndexedSource[];
+    from?: number; // Unix milliseconds, inclusive
+    to?: number; // Unix milliseconds, inclusive
+}
+
+const DATE_FORMATS = ['YYYY-MM-DD HH:mm', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD'];
+const NUMBER_WITH_UNIT = /^(-?\d+(?:[.,]\d+)?)\s*(\S*)$/;
+// Dataview inline fields such as "[weight:: 81.4]" written after journal entries
+const INLINE_FIELDS = /\s*\[[^\[\]]+::[^\[\]]*\]/g;
+const INLINE_FIELD_VALUE = /(\[[^\[\]]+::\s*)-?\d+(?:[.,]\d+)?(\s*\])/;
+const INLINE_FIELD_KEY = /\[([^\[\]]+?)::/;
+// The same reading is usually written to several places, the first one listed wins
+const SOURCE_PRIORITY: IndexedSource[] = ['measurement', 'body', 'journal'];
+
+/**
+ * Parsed view of the measurements stored in measurement files, body notes and journals.
+ * Kept up to date from vault events and triggers 'changed' whenever its contents change.
+ */
+export class MeasurementIndex extends Events {
+    private moment = (window as any).moment;
+    private entries = new Map<string, IndexedMeasurement[]>();
+    private notifyChanged = debounce(() => this.trigger('changed'), 250, true);
+
+    constructor(private app: App, private settings: Settings) {
+        super();
+    }
+
+    /**
+     * Re-read every indexed file, e.g. after folders or measurements change in settings
+     */
+    async rebuild(): Promise<void> {
+        this.entries.clear();
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (!this.getKind(file.path)) continue;
+            this.setEntries(file.path, this.parseContent(file.path, await this.app.vault.cachedRead(file)));
+        }
+
+        this.trigger('changed');
+    }
+
+    /**
+     * Re-parse a single file after it was created or modified
+     */
+    async updateFile(file: TAbstractFile): Promise<void> {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+
+        const hadEntries = this.entries.has(file.path);
+        const parsed = this.getKind(file.path)
+            ? this.parseContent(file.path, await this.app.vault.cachedRead(file))
+            : [];
+
+        this.setEntries(file.path, parsed);
+        if (hadEntries || parsed.length > 0) {
+            this.notifyChanged();
+        }
+    }
+
+    removeFile(path: string) {
+        if (this.entries.delete(path)) {
+            this.notifyChanged();
+        }
+    }
+
+    async renameFile(file: TAbstractFile, oldPath: string): Promise<void> {
+        this.removeFile(oldPath);
+        await this.updateFile(file);
+    }
+
+    /**
+     * Every indexed value matching the query, oldest first. A reading written to
+     * several places appears once per place, see getReadings for unique values.
+     */
+    query(query: MeasurementQuery = {}): IndexedMeasurement[] {
+        const results: IndexedMeasurement[] = [];
+
+        this.entries.forEach(fileEntries => {
+            for (const entry of fileEntries) {
+                if (query.measurement && entry.measurement !== query.measurement) continue;
+                if (query.userId && entry.userId !== query.userId) continue;
+                if (query.kinds && !query.kinds.includes(entry.kind)) continue;
+                if (query.from !== undefined && entry.timestamp < query.from) continue;
+                if (query.to !== undefined && entry.timestamp > query.to) continue;
+                results.push(entry);
+            }
+        });
+
+        return results.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Unique readings matching the query, oldest first. Copies of a reading in body notes
+     * and journals are dropped in favour of the measurement file row.
+     */
+    getReadings(query: MeasurementQuery = {}): IndexedMeasurement[] {
+        const seen = new Set<string>();
+        const seenDays = new Set<string>();
+        const readings: IndexedMeasurement[] = [];
+
+        const entries = this.query(query)
+            .sort((a, b) => SOURCE_PRIORITY.indexOf(a.kind) - SOURCE_PRIORITY.indexOf(b.kind));
+
+        for (const entry of entries) {
+            const day = this.moment(entry.timestamp).format('YYYY-MM-DD');
+            const dayKey = `${entry.measurement}|${day}|${entry.value}`;
+
+            if (entry.kind === 'journal') {
+                // Journal lines only carry the day, and a user when their inline field names one
+                if (seenDays.has(entry.userId ? `${dayKey}|${entry.userId}` : dayKey)) continue;
+            } else {
+                const key = `${entry.measurement}|${entry.user}|${entry.timestamp}|${entry.value}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+            }
+
+            seenDays.add(dayKey);
+            seenDays.add(`${dayKey}|${entry.userId}`);
+            readings.push(entry);
+        }
+
+        return readings.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * The most recent reading of a measurement
+     */
+    getLatest(measurement: string, userId?: string): IndexedMeasurement | undefined {
+        const readings = this.getReadings({ measurement, userId });
+        return readings[readings.length - 1];
+    }
+
+    /**
+     * Every place a reading was written: its measurement file row, body note row and journal line
+     */
+    getCopies(reading: IndexedMeasurement): IndexedMeasurement[] {
+        const day = this.moment(reading.timestamp).format('YYYY-MM-DD');
+        const measurement = this.settings.measurements.find(m => m.name === reading.measurement);
+        if (!measurement) return [];
+
+        return this.query({ measurement: reading.measurement }).filter(entry => {
+            // Copies written before a system switch are in other units, rounded when converted
+            const value = tryConvertMeasurementValue(measurement, reading.value, reading.unit, entry.unit);
+            if (value === undefined || formatValue(value) !== formatValue(entry.value)) return false;
+
+            if (entry.kind === 'journal' || reading.kind === 'journal') {
+                // Journal lines of several users only name theirs in the inline field
+                return this.moment(entry.timestamp).format('YYYY-MM-DD') === day && entry.userId === reading.userId;
+            }
+            return entry.timestamp === reading.timestamp && entry.user === reading.user;
+        });
+    }
+
+    /**
+     * Replace the value in a line this index parsed, leaving the rest of the line as written
+     */
+    replaceValue(entry: IndexedMeasurement, line: string, value: string): string | undefined {
+        if (entry.kind === 'journal') {
+            const task = new RegExp(`^(>?\\s*-\\s*\\[${this.escape(this.settings.stringPrefixLetter)}\\]\\s+)(.*)$`).exec(line);
+            const match = task && this.getJournalEntryPattern().exec(task[2].replace(INLINE_FIELDS, '').trim());
+            if (!task || !match?.groups) return undefined;
+
+            // The value follows the measurement name, so replace the first number after it
+            const nameEnd = task[1].length + task[2].indexOf(match.groups.name) + match.groups.name.length;
+            return (line.slice(0, nameEnd) + line.slice(nameEnd).replace(match.groups.value, value))
+                .replace(INLINE_FIELD_VALUE, `$1${value}$2`);
+        }
+
+        // Table rows: the value is in the last numeric cell
+        const cells = line.split('|');
+        for (let i = cells.length - 1; i >= 0; i--) {
+            const cell = cells[i].trim();
+            if (!NUMBER_WITH_UNIT.test(cell) || /^\d{4}-\d{2}-\d{2}/.test(cell) || /^\d{1,2}:\d{2}$/.test(cell)) continue;
+
+            const [, number] = NUMBER_WITH_UNIT.exec(cell)!;
+            cells[i] = cells[i].replace(number, value);
+            return cells.join('|');
+        }
+        return undefined;
+    }
+
+    /**
+     * Entries parsed from one file, in file order
+     */
+    getFileEntries(path: string): IndexedMeasurement[] {
+        return this.entries.get(path) || [];
+    }
+
+    /**
+     * Parse note content as if it were stored at the given path.
+     * Also used to read files that are about to be written.
+     */
+    parseContent(path: string, content: string): IndexedMeasurement[] {
+        const kind = this.getKind(path);
+        if (!kind) return [];
+
+        const lines = content.split('\n');
+        const entries: IndexedMeasurement[] = [];
+
+        if (kind === 'journal') {
+            const date = this.getJournalDate(path);
+            if (!date) return [];
+
+            lines.forEach((line, index) => {
+                const entry = this.parseJournalLine(line, date);
+                if (entry) entries.push({ ...entry, kind, path, line: index });
+            });
+            return entries;
+        }
+
+        const basename = path.split('/').pop()!.replace(/\.md$/, '');
+        const measurement = kind === 'measurement'
+            ? this.getMeasurementForFile(basename)
+            : this.settings.measurements.find(m => m.name === basename);
+        if (!measurement) return [];
+
+        lines.forEach((line, index) => {
+            if (!line.trim().startsWith('|')) return;
+
+            const entry = this.parseTableRow(line, measurement);
+            if (entry) entries.push({ ...entry, kind, path, line: index });
+        });
+
+        return entries;
+    }
+
+    private setEntries(path: string, entries: IndexedMeasurement[]) {
+        if (entries.length > 0) {
+            this.entries.set(path, entries);
+        } else {
+            this.entries.delete(path);
+        }
+    }
+
+    private getKind(path: string): IndexedSource | undefined {
+        if (!path.endsWith('.md')) return undefined;
+        const inFolder = (folder?: string) => !!folder && path.startsWith(folder.replace(/\/$/, '') + '/');
+
+        if (inFolder(this.settings.measurementFolder)) return 'measurement';
+        if (this.settings.enableBodyNotes && inFolder(this.settings.bodyNotesFolder)) return 'body';
+        if (this.settings.enableJournalEntry && inFolder(this.settings.journalFolder)) return 'journal';
+        return undefined;
+    }
+
+    /**
+     * Match a measurement file against the configured file name format
+     */
+    private getMeasurementForFile(basename: string): Measurement | undefined {
+        const userNames = [...this.settings.users.map(u => u.name), 'Unknown'];
+
+        for (const measurement of this.settings.measurements) {
+            for (const userName of userNames) {
+                const fileName = this.settings.measurementFileNameFormat
+                    .replace(/<measure>/g, measurement.name)
+                    .replace(/<user>/g, userName);
+                if (fileName === basename) {
+                    return measurement;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Read a table row written from a template such as "| <date> | <user> | <measure> <unit> |".
+     * Cells are recognised by their content so custom templates and column orders still parse.
+     */
+    private parseTableRow(line: string, measurement: Measurement): Omit<IndexedMeasurement, 'kind' | 'path' | 'line'> | undefined {
+        const cells = line.split('|').map(cell => cell.trim()).filter(cell => cell);
+
+        const dateIndex = cells.findIndex(cell => /^\d{4}-\d{2}-\d{2}/.test(cell));
+        if (dateIndex < 0) return undefined;
+
+        // Body notes keep the time in its own column
+        let date = cells[dateIndex];
+        const timeCell = cells.find(cell => /^\d{1,2}:\d{2}$/.test(cell));
+        if (timeCell && !date.includes(':')) {
+            date = `${date} ${timeCell}`;
+        }
+
+        const timestamp = this.moment(date, DATE_FORMATS, true);
+        if (!timestamp.isValid()) return undefined;
+
+        const user = this.settings.users.find(u => cells.includes(u.name));
+
+        // The value is the last numeric cell, optionally followed by its unit
+        const valueCell = cells
+            .filter((cell, index) => index !== dateIndex && cell !== timeCell)
+            .reverse()
+            .find(cell => NUMBER_WITH_UNIT.test(cell));
+        if (!valueCell) return undefined;
+
+        const [, number, rawUnit] = NUMBER_WITH_UNIT.exec(valueCell)!;
+        const value = parseFloat(number.replace(',', '.'));
+        if (isNaN(value)) return undefined;
+
+        return {
+            measurement: measurement.name,
+            userId: user?.id,
+            user: user?.name || 'Unknown',
+            date,
+            timestamp: timestamp.valueOf(),
+            value,
+            unit: this.resolveUnit(rawUnit, measurement, user?.id)
+        };
+    }
+
+    /**
+     * Read one of our journal task lines, e.g. "- [b] Weight: 81.4 kg"
+     */
+    private parseJournalLine(line: string, date: moment.Moment): Omit<IndexedMeasurement, 'kind' | 'path' | 'line'> | undefined {
+        const prefix = this.escape(this.settings.stringPrefixLetter);
+        const task = new RegExp(`^>?\\s*-\\s*\\[${prefix}\\]\\s+(.*)$`).exec(line);
+        if (!task) return undefined;
+
+        const match = this.getJournalEntryPattern().exec(task[1].replace(INLINE_FIELDS, '').trim());
+        if (!match?.groups) return undefined;
+
+        const measurement = this.settings.measurements.find(m => m.name === match.groups!.name.trim());
+        const value = parseFloat(match.groups.value.replace(',', '.'));
+        if (!measurement || isNaN(value)) return undefined;
+
+        const user = this.getJournalUser(task[1], measurement);
+
+        return {
+            measurement: measurement.name,
+            userId: user?.id,
+            user: user?.name || 'Unknown',
+            date: date.format('YYYY-MM-DD'),
+            timestamp: date.valueOf(),
+            value,
+            unit: this.resolveUnit(match.groups.unit || '', measurement, user?.id)
+        };
+    }
+
+    /**
+     * The user of a journal line, from the key of its inline field such as "[alice_weight:: 81.4]".
+     * Lines without one belong to the only user, if there is just one.
+     */
+    private getJournalUser(line: string, measurement: Measurement): User | undefined {
+        const key = INLINE_FIELD_KEY.exec(line)?.[1].trim();
+        const user = key
+            ? this.settings.users.find(u => getPropertyKey(this.settings, measurement, u.id) === key)
+            : undefined;
+        return user || (this.settings.users.length === 1 ? this.settings.users[0] : undefined);
+    }
+
+    /**
+     * Turn the journal entry template into a pattern, e.g. "<measured>: <measure> <unit>"
+     */
+    private getJournalEntryPattern(): RegExp {
+        const placeholders: Record<string, string> = {
+            '<measured>': '(?<name>.+?)',
+            '<measure>': '(?<value>-?\\d+(?:[.,]\\d+)?)',
+            '<unit>': '(?<unit>\\S*)'
+        };
+
+        const pattern = this.settings.journalEntryTemplate
+            .split(/(<measured>|<measure>|<unit>)/)
+            .map(part => placeholders[part] ?? this.escape(part))
+            .join('')
+            // Unitless values are written without the space before the unit
+            .replace(/ \(\?<unit>/, ' ?(?<unit>');
+
+        return new RegExp(`^${pattern}$`);
+    }
+
+    private getJournalDate(path: string): moment.Moment | undefined {
+        const basename = path.split('/').pop()!.replace(/\.md$/, '');
+
+        // Journal names usually start with an ISO date, otherwise fall back to the configured format
+        const iso = /\d{4}-\d{2}-\d{2}/.exec(basename);
+        const date = iso
+            ? this.moment(iso[0], 'YYYY-MM-DD', true)
+            : this.moment(basename, this.settings.journalNameFormat, true);
+
+        return date.isValid() ? date : undefined;
+    }
+
+    private resolveUnit(rawUnit: string, measurement: Measurement, userId?: string): string {
+        if (rawUnit) {
+            const known = normalizeUnit(rawUnit);
+            return known && getDimension(known) ? known : rawUnit;
+        }
+        // Unitless rows are in the unit the measurement is recorded in
+        return getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, userId));
+    }
+
+    private escape(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
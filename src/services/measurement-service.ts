@@ -1,33 +1,179 @@
 import { App, TFile, Notice } from 'obsidian';
-import type { Settings, MeasurementRecord } from '../types';
+import type { Settings, Measurement, MeasurementRecord } from '../types';
+import { formatValue, getDisplayUnit, getUserSystem, replaceUnitPlaceholder, tryConvertMeasurementValue } from '../units';
+import type { MeasurementIndex } from './measurement-index';
+import type { TrendService } from './trend-service';
+
+// Trend values are written with a leading ~ so they are never read back as the measured value
+const TREND_PREFIX = '~';
 
 export class MeasurementService {
-    constructor(private app: App, private settings: Settings) { }
+    private moment = (window as any).moment;
+
+    constructor(
+        private app: App,
+        private settings: Settings,
+        private index: MeasurementIndex,
+        private trendService: TrendService
+    ) { }
 
-    private formatMermaidChart(data: Array<{ date: string, value: string }>): string {
-        const chartData = data
-            .sort((a, b) => a.date.localeCompare(b.date))
-            .map(item => `    "${item.date}" : ${item.value}`);
+    /**
+     * Mermaid xychart of a measurement file's readings, with one x-axis label per reading
+     */
+    private formatMermaidChart(measurement: Measurement, unit: string, readings: Array<{ timestamp: number, value: number }>): string {
+        const sorted = [...readings].sort((a, b) => a.timestamp - b.timestamp);
+        const labels = sorted.map(reading => `"${this.moment(reading.timestamp).format('YYYY-MM-DD')}"`);
+        const values = sorted.map(reading => formatValue(reading.value));
+        // Double quotes would end mermaid strings early
+        const name = measurement.name.replace(/"/g, "'");
+        const axisTitle = unit ? `${name} (${unit})` : name;
 
         return `\`\`\`mermaid
 xychart-beta
-    title Values over time
-    x-axis [${data[0].date} to ${data[data.length - 1].date}]
-    y-axis "Value"
-    line
-${chartData.join('\n')}
+    title "${name} over time"
+    x-axis [${labels.join(', ')}]
+    y-axis "${axisTitle}"
+    line [${values.join(', ')}]
 \`\`\``;
     }
 
-    async updateMeasurementFiles(data: MeasurementRecord) {
+    /**
+     * Readings of a measurement file, converted into the given unit so rows written
+     * before a measurement system switch still show up in the chart
+     */
+    private getChartReadings(path: string, content: string, measurement: Measurement, unit: string): Array<{ timestamp: number, value: number }> {
+        return this.index.parseContent(path, content).flatMap(entry => {
+            const value = tryConvertMeasurementValue(measurement, entry.value, entry.unit, unit);
+            return value === undefined ? [] : [{ timestamp: entry.timestamp, value }];
+        });
+    }
+
+    /**
+     * Regenerate the chart of an existing measurement file from its table rows
+     */
+    async rebuildChart(file: TFile, unit: string): Promise<void> {
+        const content = await this.app.vault.read(file);
+        if (!content.includes('```mermaid')) return;
+
+        const entries = this.index.parseContent(file.path, content);
+        const measurement = this.settings.measurements.find(m => m.name === entries[0]?.measurement);
+        if (!measurement) return;
+
+        const readings = this.getChartReadings(file.path, content, measurement, unit);
+        if (readings.length === 0) return;
+
+        await this.app.vault.modify(file, content.replace(/```mermaid[\s\S]*?```/, this.formatMermaidChart(measurement, unit, readings)));
+    }
+
+    /**
+     * Recompute the trend cells of a measurement file, e.g. after a reading was edited or deleted
+     */
+    async rebuildTrends(file: TFile, unit: string): Promise<void> {
+        const content = await this.app.vault.read(file);
+        const entries = this.index.parseContent(file.path, content);
+        const measurement = this.settings.measurements.find(m => m.name === entries[0]?.measurement);
+        if (!measurement) return;
+
+        // Turn the written trends back into placeholders and fill them in again
+        const trendCell = new RegExp(`${TREND_PREFIX}-?\\d+(?:\\.\\d+)?`);
+        const placeholders = content.split('\n')
+            .map(line => line.trim().startsWith('|') ? line.replace(trendCell, '<trend>') : line)
+            .join('\n');
+
+        const updated = this.fillTrends(file.path, placeholders, measurement, unit);
+        if (updated !== content) {
+            await this.app.vault.modify(file, updated);
+        }
+    }
+
+    /**
+     * The entry template, with a trend column added to table rows when trend values are enabled
+     */
+    private getEntryTemplate(): string {
+        const template = this.settings.measurementEntryTemplate;
+        if (!this.settings.writeTrendValues || template.includes('<trend>') || !template.trim().endsWith('|')) {
+            return template;
+        }
+        return `${template.trimEnd()} <trend> <unit> |`;
+    }
+
+    private hasExistingEntry(content: string, entry: string): boolean {
+        // Rows written earlier have their trend filled in, rows of this batch don't yet
+        const pattern = new RegExp('^' + entry.trim()
+            .split('<trend>')
+            .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join(`(?:<trend>|${TREND_PREFIX}-?\\d+(?:\\.\\d+)?)?`) + '$');
+        return content.split('\n').some(line => pattern.test(line.trim()));
+    }
+
+    /**
+     * Fill in the <trend> placeholder of new rows from the trend of each user's readings in the file
+     */
+    private fillTrends(path: string, content: string, measurement: Measurement, unit: string): string {
+        if (!content.includes('<trend>')) return content;
+
+        const lines = content.split('\n');
+        const byUser = new Map<string, Array<{ line: number, timestamp: number, value: number }>>();
+        for (const entry of this.index.parseContent(path, content)) {
+            const value = tryConvertMeasurementValue(measurement, entry.value, entry.unit, unit);
+            if (value === undefined) continue;
+
+            if (!byUser.has(entry.user)) byUser.set(entry.user, []);
+            byUser.get(entry.user)!.push({ line: entry.line, timestamp: entry.timestamp, value });
+        }
+
+        byUser.forEach(readings => {
+            readings.sort((a, b) => a.timestamp - b.timestamp);
+            const trend = this.trendService.smooth(readings);
+            readings.forEach((reading, i) => {
+                lines[reading.line] = lines[reading.line].replace(/<trend>/g, TREND_PREFIX + formatValue(trend[i]));
+            });
+        });
+
+        // Rows we couldn't read back get an empty trend
+        return lines.map(line => line.replace(/<trend>/g, '')).join('\n');
+    }
+
+    private insertEntry(content: string, entry: string): string {
+        const lines = content.trim().split('\n');
+
+        // Add the row directly below the last table row so it lands inside the table
+        let lastRow = -1;
+        lines.forEach((line, index) => {
+            if (line.trim().startsWith('|')) lastRow = index;
+        });
+
+        if (lastRow >= 0) {
+            lines.splice(lastRow + 1, 0, entry);
+        } else {
+            const chartStart = lines.findIndex(line => line.startsWith('```mermaid'));
+            if (chartStart >= 0) {
+                lines.splice(chartStart, 0, entry, '');
+            } else {
+                lines.push(entry);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Write records to their measurement files, reading and writing each file only once
+     */
+    async updateMeasurementFiles(records: MeasurementRecord[], notify = true) {
         // Create the measurements folder if it doesn't exist
         await this.app.vault.createFolder(this.settings.measurementFolder).catch(() => { });
 
-        // Update each measurement file
-        for (const measurement of this.settings.measurements) {
-            const value = data[measurement.name];
-            if (value !== undefined) {
-                const user = this.settings.users.find(u => u.id === data.userId);
+        // Collect new entries per file
+        const pending = new Map<string, { measurement: Measurement, unit: string, rows: Array<{ entry: string }> }>();
+        for (const data of records) {
+            const user = this.settings.users.find(u => u.id === data.userId);
+            // Each user's values are written in their own measurement system
+            const system = getUserSystem(this.settings, data.userId);
+
+            for (const measurement of this.settings.measurements) {
+                const value = data[measurement.name];
+                if (value === undefined) continue;
 
                 // Create file name using template
                 const fileName = this.settings.measurementFileNameFormat
@@ -36,81 +182,91 @@ ${chartData.join('\n')}
 
                 const filePath = `${this.settings.measurementFolder}/${fileName}.md`;
 
-                // Get the appropriate unit based on measurement type and system
-                const unit = measurement.type === 'weight'
-                    ? (this.settings.measurementSystem === 'metric' ? 'kg' : 'lbs')
-                    : (this.settings.measurementSystem === 'metric' ? 'cm' : 'in');
-
                 // Create entry line using template
-                const entry = this.settings.measurementEntryTemplate
+                const unit = getDisplayUnit(measurement, this.settings, system);
+                const entry = replaceUnitPlaceholder(this.getEntryTemplate(), unit)
                     .replace(/<date>/g, data.date)
                     .replace(/<user>/g, user?.name || 'Unknown')
-                    .replace(/<measure>/g, value)
-                    .replace(/<unit>/g, unit);
-
-                // Get or create file with template
-                let content = '';
-                let measurementData: Array<{ date: string, value: string }> = [];
-                const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-
-                if (existingFile instanceof TFile) {
-                    content = await this.app.vault.read(existingFile);
-                    // Parse existing data from the table
-                    const tableLines = content.split('\n').filter(line => line.startsWith('|') && line.includes(unit));
-                    measurementData = tableLines.map(line => {
-                        const [date, , value] = line.split('|').map(cell => cell.trim());
-                        return { date, value: value.replace(unit, '').trim() };
-                    });
-                } else {
-                    // Create new file with template if it exists
-                    if (this.settings.measurementFileTemplate) {
-                        const templateFile = this.app.vault.getAbstractFileByPath(this.settings.measurementFileTemplate);
-                        if (templateFile instanceof TFile) {
-                            content = await this.app.vault.read(templateFile);
-                            // Replace template variables
-                            content = content
-                                .replace(/<measurementName>/g, measurement.name)
-                                .replace(/<measurementType>/g, measurement.type)
-                                .replace(/<unit>/g, unit);
-                        }
-                    }
+                    .replace(/<measure>/g, value);
 
-                    // If no template or template file not found, use default header
-                    if (!content) {
-                        content = `# ${measurement.name} History\n\n| Date | User | Value |\n|------|------|-------|\n`;
-                    }
+                if (!pending.has(filePath)) {
+                    pending.set(filePath, { measurement, unit, rows: [] });
                 }
+                pending.get(filePath)!.rows.push({ entry });
+            }
+        }
 
-                // Add new data point
-                measurementData.push({ date: data.date, value });
+        // Update each measurement file
+        for (const [filePath, { measurement, unit, rows }] of Array.from(pending.entries())) {
 
-                // Create chart section
-                const chartSection = this.formatMermaidChart(measurementData);
+            // Get or create file with template
+            let content = '';
+            const existingFile = this.app.vault.getAbstractFileByPath(filePath);
 
-                // Add new entry and chart
-                let newContent = content.trim();
-                if (newContent.includes('```mermaid')) {
-                    // Replace existing chart
-                    newContent = newContent.replace(/```mermaid[\s\S]*?```/, chartSection);
-                } else {
-                    // Add new chart after the table
-                    newContent = newContent + '\n' + entry + '\n\n' + chartSection;
+            if (existingFile instanceof TFile) {
+                content = await this.app.vault.read(existingFile);
+            } else {
+                // Create new file with template if it exists
+                if (this.settings.measurementFileTemplate) {
+                    const templateFile = this.app.vault.getAbstractFileByPath(this.settings.measurementFileTemplate);
+                    if (templateFile instanceof TFile) {
+                        content = await this.app.vault.read(templateFile);
+                        // Replace template variables
+                        content = content
+                            .replace(/<measurementName>/g, measurement.name)
+                            .replace(/<measurementType>/g, measurement.type);
+                        content = replaceUnitPlaceholder(content, unit);
+                    }
                 }
 
-                if (existingFile instanceof TFile) {
-                    await this.app.vault.modify(existingFile, newContent);
-                    new Notice(`Updated ${measurement.name} measurement file`);
-                } else {
-                    await this.app.vault.create(filePath, newContent);
-                    new Notice(`Created ${measurement.name} measurement file`);
+                // If no template or template file not found, use default header
+                if (!content) {
+                    content = this.settings.writeTrendValues
+                        ? `# ${measurement.name} History\n\n| Date | User | Value | Trend |\n|------|------|-------|-------|\n`
+                        : `# ${measurement.name} History\n\n| Date | User | Value |\n|------|------|-------|\n`;
                 }
             }
+
+            // Never write the same reading twice
+            let newContent = content;
+            let added = 0;
+            for (const row of rows) {
+                if (this.hasExistingEntry(newContent, row.entry)) continue;
+
+                newContent = this.insertEntry(newContent, row.entry);
+                added++;
+            }
+            if (added === 0) continue;
+            newContent = this.fillTrends(filePath, newContent, measurement, unit);
+
+            // Create chart section from the rows now in the table
+            const readings = this.getChartReadings(filePath, newContent, measurement, unit);
+            const chartSection = this.formatMermaidChart(measurement, unit, readings);
+
+            if (readings.length === 0) {
+                // Rows in a custom template we can't read back, leave any chart alone
+            } else if (newContent.includes('```mermaid')) {
+                // Replace existing chart
+                newContent = newContent.replace(/```mermaid[\s\S]*?```/, chartSection);
+            } else {
+                // Add new chart after the table
+                newContent = newContent + '\n\n' + chartSection;
+            }
+
+            if (existingFile instanceof TFile) {
+                await this.app.vault.modify(existingFile, newContent);
+                if (notify) new Notice(`Updated ${measurement.name} measurement file`);
+            } else {
+                await this.app.vault.create(filePath, newContent);
+                if (notify) new Notice(`Created ${measurement.name} measurement file`);
+            }
         }
     }
 
-    getUnitForMeasurement(type: 'length' | 'weight'): { metric: string, imperial: string } {
-        return type === 'length'
-            ? { metric: 'cm', imperial: 'in' }
-            : { metric: 'kg', imperial: 'lbs' };
+    getUnitForMeasurement(measurement: Measurement): { metric: string, imperial: string } {
+        return {
+            metric: getDisplayUnit(measurement, this.settings, 'metric'),
+            imperial: getDisplayUnit(measurement, this.settings, 'imperial')
+        };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,216 @@
+import { App, TFile } from 'obsidian';
+import type { Settings, MeasurementSystem } from '../types';
+import type { MeasurementService } from './measurement-service';
+import { CANONICAL_UNITS, convert, Dimension, formatValue, getDimension, getDisplayUnit, getUserSystem, normalizeUnit, parseValueWithUnit } from '../units';
+import { getPropertyKey } from './journal-service';
+
+export interface MigrationChange {
+    line: number;
+    before: string;
+    after: string;
+}
+
+export interface MigrationPropertyChange {
+    key: string;
+    before: number;
+    after: number;
+}
+
+export interface MigrationFile {
+    file: TFile;
+    kind: 'measurement' | 'body' | 'journal';
+    unit: string;
+    changes: MigrationChange[];
+    properties: MigrationPropertyChange[]; // Journal frontmatter written for query plugins
+}
+
+/**
+ * Rewrites values already stored in the vault when the measurement system changes
+ */
+export class UnitMigrationService {
+    constructor(
+        private app: App,
+        private settings: Settings,
+        private measurementService: MeasurementService
+    ) { }
+
+    /**
+     * Work out every line that would change, without touching any files
+     */
+    async plan(system: MeasurementSystem, imperialMassUnit: 'lbs' | 'st'): Promise<MigrationFile[]> {
+        const targetUnits: Record<Dimension, string> = {
+            mass: system === 'metric' ? 'kg' : imperialMassUnit,
+            length: system === 'metric' ? 'cm' : 'in',
+            percentage: CANONICAL_UNITS.percentage
+        };
+
+        // Users with their own measurement system keep their values as they are
+        const pinnedUsers = new Set(this.settings.users
+            .filter(user => user.measurementSystem)
+            .map(user => user.name));
+
+        const plan: MigrationFile[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const kind = this.getKind(file);
+            if (!kind) continue;
+
+            const content = await this.app.vault.cachedRead(file);
+            const changes: MigrationChange[] = [];
+            let unit = '';
+
+            content.split('\n').forEach((line, index) => {
+                if (!this.isMeasurementLine(kind, line)) return;
+                if (kind === 'journal' ? this.isPinnedUserLine(line, pinnedUsers) : this.isPinnedUserRow(line, pinnedUsers)) return;
+
+                const converted = this.convertLine(line, targetUnits);
+                if (converted && converted.line !== line) {
+                    changes.push({ line: index, before: line, after: converted.line });
+                    unit = converted.unit;
+                }
+            });
+
+            const properties = kind === 'journal' ? this.planProperties(file, targetUnits, pinnedUsers) : [];
+
+            if (changes.length > 0 || properties.length > 0) {
+                plan.push({ file, kind, unit, changes, properties });
+            }
+        }
+
+        return plan;
+    }
+
+    /**
+     * Apply a plan. Lines edited since the plan was made are left alone.
+     * Returns the number of lines rewritten.
+     */
+    async apply(plan: MigrationFile[]): Promise<number> {
+        let rewritten = 0;
+
+        for (const { file, kind, unit, changes, properties } of plan) {
+            const lines = (await this.app.vault.read(file)).split('\n');
+            let fileRewritten = 0;
+
+            for (const change of changes) {
+                if (lines[change.line] === change.before) {
+                    lines[change.line] = change.after;
+                    fileRewritten++;
+                }
+            }
+
+            if (fileRewritten > 0) {
+                await this.app.vault.modify(file, lines.join('\n'));
+                rewritten += fileRewritten;
+            }
+
+            if (properties.length > 0) {
+                await this.app.fileManager.processFrontMatter(file, frontmatter => {
+                    for (const property of properties) {
+                        if (frontmatter[property.key] !== property.before) continue;
+                        frontmatter[property.key] = property.after;
+                        rewritten++;
+                    }
+                });
+            }
+
+            if (kind === 'measurement' && fileRewritten > 0) {
+                await this.measurementService.rebuildChart(file, unit);
+            }
+        }
+
+        return rewritten;
+    }
+
+    /**
+     * Frontmatter properties of a journal, written in the unit each user recorded in before the switch
+     */
+    private planProperties(file: TFile, targetUnits: Record<Dimension, string>, pinnedUsers: Set<string>): MigrationPropertyChange[] {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter) return [];
+
+        const users = this.settings.users.length > 0 ? this.settings.users : [undefined];
+        const properties: MigrationPropertyChange[] = [];
+
+        for (const user of users) {
+            if (user && pinnedUsers.has(user.name)) continue;
+
+            for (const measurement of this.settings.measurements) {
+                const key = getPropertyKey(this.settings, measurement, user?.id);
+                const before = frontmatter[key];
+                if (typeof before !== 'number') continue;
+
+                const unit = getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, user?.id));
+                const dimension = getDimension(unit);
+                if (!dimension || targetUnits[dimension] === unit) continue;
+
+                const after = parseFloat(formatValue(convert(before, unit, targetUnits[dimension])));
+                properties.push({ key, before, after });
+            }
+        }
+
+        return properties;
+    }
+
+    private getKind(file: TFile): MigrationFile['kind'] | undefined {
+        const inFolder = (folder?: string) => !!folder && file.path.startsWith(folder.replace(/\/$/, '') + '/');
+
+        if (inFolder(this.settings.measurementFolder)) return 'measurement';
+        if (inFolder(this.settings.bodyNotesFolder)) return 'body';
+        if (inFolder(this.settings.journalFolder)) return 'journal';
+        return undefined;
+    }
+
+    private isMeasurementLine(kind: MigrationFile['kind'], line: string): boolean {
+        if (kind === 'journal') {
+            // Only touch our own task lines, never free text in the journal
+            const prefix = this.settings.stringPrefixLetter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            return new RegExp(`^>?\\s*-\\s*\\[${prefix}\\]\\s`).test(line);
+        }
+        return line.trim().startsWith('|');
+    }
+
+    private isPinnedUserRow(line: string, pinnedUsers: Set<string>): boolean {
+        return pinnedUsers.size > 0 && line.split('|').some(cell => pinnedUsers.has(cell.trim()));
+    }
+
+    /**
+     * Journal lines name their user in the inline field key, e.g. "[alice_weight:: 81.4]",
+     * or belong to the only user
+     */
+    private isPinnedUserLine(line: string, pinnedUsers: Set<string>): boolean {
+        const users = this.settings.users.filter(user => pinnedUsers.has(user.name));
+        if (users.length === 0) return false;
+        if (this.settings.users.length === 1) return true;
+
+        const key = /\[([^\[\]]+?)::/.exec(line)?.[1].trim();
+        return !!key && users.some(user =>
+            this.settings.measurements.some(measurement => getPropertyKey(this.settings, measurement, user.id) === key));
+    }
+
+    private convertLine(line: string, targetUnits: Record<Dimension, string>): { line: string, unit: string } | undefined {
+        const parsed = parseValueWithUnit(line);
+        if (!parsed) return undefined;
+
+        const dimension = getDimension(parsed.unit);
+        if (!dimension) return undefined;
+
+        const target = targetUnits[dimension];
+        if (target === parsed.unit) return { line, unit: target };
+
+        const value = formatValue(convert(parsed.value, parsed.unit, target));
+        const rest = line.slice(parsed.index + parsed.match.length);
+
+        // A trend value written after the reading is in the same unit
+        const trend = /^(.*?)~(-?\d+(?:\.\d+)?)\s*(\S+)/.exec(rest);
+        const convertedRest = (trend && normalizeUnit(trend[3]) === parsed.unit
+            ? `${trend[1]}~${formatValue(convert(parseFloat(trend[2]), parsed.unit, target))} ${target}` + rest.slice(trend[0].length)
+            : rest)
+            // So is an inline field repeating it, e.g. "[weight:: 81.4]"
+            .replace(/(\[[^\[\]]+::\s*)(-?\d+(?:[.,]\d+)?)(\s*\])/, (field, start, number, end) =>
+                parseFloat(number.replace(',', '.')) === parsed.value ? `${start}${value}${end}` : field);
+
+        return {
+            line: line.slice(0, parsed.index) + `${value} ${target}` + convertedRest,
+            unit: target
+        };
+    }
+}
@@ -0,0 +1,165 @@
+import type { Measurement, MeasurementRecord, MeasurementSystem, Settings } from '../types';
+import { formatValue, getDisplayUnit, getUserSystem, normalizeUnit, tryConvertMeasurementValue } from '../units';
+
+const DATE_WORDS: Record<string, number> = { today: 0, yesterday: 1 };
+const VALUE_PART = /^(.+?)\s*(-?\d+(?:[.,]\d+)?)\s*(\S*)$/;
+const VALUE_WITH_UNIT = /^(-?\d+(?:[.,]\d+)?)\s*(\S*)$/;
+// Query parameters of obsidian://body-tracker links that aren't measurements
+const RESERVED_PARAMS = ['action', 'user', 'date', 'silent'];
+
+/**
+ * Turns quick entries such as "w 81.4, waist 84 @alice yesterday 7:30" and
+ * obsidian://body-tracker links into records.
+ */
+export class QuickEntryService {
+    private moment = (window as any).moment;
+
+    constructor(private settings: Settings) { }
+
+    /**
+     * Parse an entry. Values are separated by commas, and "@user", a date and a time can
+     * appear anywhere. Throws an Error that describes the first problem found.
+     */
+    parse(text: string): MeasurementRecord {
+        let rest = ` ${text} `;
+
+        // User
+        let userId = this.getDefaultUserId();
+        const mention = /\s@(\S+)/.exec(rest);
+        if (mention) {
+            userId = this.findUserId(mention[1].replace(/,$/, ''));
+            rest = rest.replace(mention[0], ' ');
+        }
+
+        // Date and time, keeping the current time when only a date is given
+        let date = this.moment();
+        const dateMatch = /\s(today|yesterday|\d{4}-\d{2}-\d{2})(?=[\s,])/i.exec(rest);
+        if (dateMatch) {
+            const word = dateMatch[1].toLowerCase();
+            const day = word in DATE_WORDS
+                ? this.moment().subtract(DATE_WORDS[word], 'days')
+                : this.moment(word, 'YYYY-MM-DD', true);
+            if (!day.isValid()) throw new Error(`"${dateMatch[1]}" is not a valid date`);
+            date = day.hours(date.hours()).minutes(date.minutes());
+            rest = rest.replace(dateMatch[0], ' ');
+        }
+
+        const timeMatch = /\s(\d{1,2}):(\d{2})(?=[\s,])/.exec(rest);
+        if (timeMatch) {
+            const hours = parseInt(timeMatch[1]);
+            const minutes = parseInt(timeMatch[2]);
+            if (hours > 23 || minutes > 59) throw new Error(`"${timeMatch[1]}:${timeMatch[2]}" is not a valid time`);
+            date = date.clone().hours(hours).minutes(minutes);
+            rest = rest.replace(timeMatch[0], ' ');
+        }
+
+        const record: MeasurementRecord = { date: date.format('YYYY-MM-DD HH:mm'), userId };
+        const system = getUserSystem(this.settings, userId);
+
+        // Values, where a comma followed by a digit is a decimal comma, e.g. "w 81,4, waist 84"
+        for (const part of rest.split(/,(?=\s*[^\d\s])/).map(p => p.trim()).filter(p => p)) {
+            const match = VALUE_PART.exec(part);
+            if (!match) throw new Error(`"${part}" should be a measurement followed by a value`);
+
+            const measurement = this.findMeasurement(match[1]);
+            if (!measurement) throw new Error(`unknown measurement "${match[1]}"`);
+
+            record[measurement.name] = this.toValue(measurement, match[2], match[3], system);
+        }
+
+        if (Object.keys(record).length === 2) throw new Error('no values found');
+        return record;
+    }
+
+    /**
+     * Parse the query of a link such as obsidian://body-tracker?user=alice&Weight=81.4&date=2026-10-19T07:30.
+     * Every parameter other than user, date and silent must name a measurement.
+     */
+    parseParams(params: Record<string, string>): MeasurementRecord {
+        const userId = params.user ? this.findUserId(params.user) : this.getDefaultUserId();
+
+        let date = this.moment();
+        if (params.date) {
+            date = this.moment(params.date, this.moment.ISO_8601, true);
+            if (!date.isValid()) throw new Error(`"${params.date}" is not a valid date`);
+        }
+
+        const record: MeasurementRecord = { date: date.format('YYYY-MM-DD HH:mm'), userId };
+        const system = getUserSystem(this.settings, userId);
+
+        for (const [key, raw] of Object.entries(params)) {
+            if (RESERVED_PARAMS.includes(key)) continue;
+
+            const measurement = this.findMeasurement(key);
+            if (!measurement) throw new Error(`unknown measurement "${key}"`);
+
+            const match = VALUE_WITH_UNIT.exec(String(raw).trim());
+            if (!match) throw new Error(`${measurement.name}: "${raw}" is not a number`);
+
+            record[measurement.name] = this.toValue(measurement, match[1], match[2], system);
+        }
+
+        if (Object.keys(record).length === 2) throw new Error('no values found');
+        return record;
+    }
+
+    /**
+     * One-line summary of a record, e.g. "2026-10-19 07:30 · Alice · Weight 81.4 kg"
+     */
+    describe(record: MeasurementRecord): string {
+        const user = this.settings.users.find(u => u.id === record.userId);
+        const system = getUserSystem(this.settings, record.userId);
+
+        const values = Object.entries(record)
+            .filter(([key]) => key !== 'date' && key !== 'userId')
+            .map(([name, value]) => {
+                const measurement = this.settings.measurements.find(m => m.name === name);
+                const unit = measurement ? getDisplayUnit(measurement, this.settings, system) : '';
+                return unit ? `${name} ${value} ${unit}` : `${name} ${value}`;
+            });
+
+        return `${record.date}${user ? ` · ${user.name}` : ''} · ${values.join(', ')}`;
+    }
+
+    private getDefaultUserId(): string {
+        return this.settings.defaultUser || this.settings.users[0]?.id || '';
+    }
+
+    /**
+     * Match a user by name, name prefix or ID, ignoring case
+     */
+    private findUserId(name: string): string {
+        const wanted = name.toLowerCase();
+        const user = this.settings.users.find(u => u.name.toLowerCase() === wanted || u.id === name)
+            || this.settings.users.find(u => u.name.toLowerCase().startsWith(wanted));
+        if (!user) throw new Error(`unknown user "${name}"`);
+        return user.id;
+    }
+
+    /**
+     * A value as it is written to notes, converted from the given unit into the one the user records in
+     */
+    private toValue(measurement: Measurement, number: string, unit: string, system: MeasurementSystem): string {
+        let value = parseFloat(number.replace(',', '.'));
+        const target = getDisplayUnit(measurement, this.settings, system);
+
+        if (unit && unit !== target) {
+            const converted = tryConvertMeasurementValue(measurement, value, normalizeUnit(unit) || unit, target);
+            if (converted === undefined) throw new Error(`can't record ${measurement.name} in "${unit}"`);
+            value = parseFloat(formatValue(converted));
+        }
+
+        return String(value);
+    }
+
+    /**
+     * Match a name or alias, ignoring case. Derived measurements can't be entered.
+     */
+    private findMeasurement(name: string): Measurement | undefined {
+        const wanted = name.trim().toLowerCase();
+        return this.settings.measurements.find(m => !m.formula && (
+            m.name.toLowerCase() === wanted
+            || (m.aliases || []).some(alias => alias.toLowerCase() === wanted)
+        ));
+    }
+}
@@ -0,0 +1,134 @@
+import type { Measurement, ReminderState, Settings } from '../types';
+import type { MeasurementIndex } from './measurement-index';
+import type { JournalService } from './journal-service';
+
+export interface DueReminder {
+    userId: string; // Empty when no users are configured
+    measurement: string;
+    dueSince: number; // Unix milliseconds, start of the period without a reading
+}
+
+/**
+ * Finds measurements that have not been recorded within their schedule and remembers
+ * which reminders were snoozed, skipped or already shown
+ */
+export class ReminderService {
+    private moment = (window as any).moment;
+    // Reminders shown this session, so interval checks don't repeat them
+    private announced = new Set<string>();
+
+    constructor(
+        private settings: Settings,
+        private index: MeasurementIndex,
+        private journalService: JournalService,
+        private saveSettings: () => Promise<void>
+    ) { }
+
+    /**
+     * Every scheduled measurement without a reading in its current period, per user
+     */
+    getDue(): DueReminder[] {
+        const userIds = this.settings.users.length > 0 ? this.settings.users.map(u => u.id) : [''];
+        const due: DueReminder[] = [];
+        const today = this.moment().format('YYYY-MM-DD');
+
+        for (const measurement of this.settings.measurements) {
+            if (!measurement.reminder || measurement.formula) continue;
+            const dueSince = this.getPeriodStart(measurement);
+
+            for (const userId of userIds) {
+                const state = this.getState(userId, measurement.name);
+                if (state.skippedOn === today) continue;
+                if (state.snoozedUntil && state.snoozedUntil > Date.now()) continue;
+
+                // Journal lines carry no user, so they only count when there is a single user
+                const latest = this.index.getLatest(measurement.name, this.settings.users.length > 1 ? userId : undefined);
+                if (latest && latest.timestamp >= dueSince) continue;
+
+                due.push({ userId, measurement: measurement.name, dueSince });
+            }
+        }
+
+        return due;
+    }
+
+    /**
+     * Due reminders that haven't been shown since they became due or their snooze ended
+     */
+    takeUnannounced(): DueReminder[] {
+        return this.getDue().filter(reminder => {
+            const state = this.getState(reminder.userId, reminder.measurement);
+            const key = `${reminder.userId}|${reminder.measurement}|${reminder.dueSince}|${state.snoozedUntil || ''}`;
+            if (this.announced.has(key)) return false;
+            this.announced.add(key);
+            return true;
+        });
+    }
+
+    async snooze(reminders: DueReminder[], hours: number): Promise<void> {
+        const until = Date.now() + hours * 60 * 60 * 1000;
+        reminders.forEach(reminder => this.getState(reminder.userId, reminder.measurement, true).snoozedUntil = until);
+        await this.saveSettings();
+    }
+
+    async skipToday(reminders: DueReminder[]): Promise<void> {
+        const today = this.moment().format('YYYY-MM-DD');
+        reminders.forEach(reminder => this.getState(reminder.userId, reminder.measurement, true).skippedOn = today);
+        await this.saveSettings();
+    }
+
+    /**
+     * Add an open "Record ..." task per user to today's journal
+     */
+    async addJournalTasks(reminders: DueReminder[]): Promise<void> {
+        const date = this.moment().format('YYYY-MM-DD HH:mm');
+
+        for (const [userId, measurements] of Array.from(this.groupByUser(reminders).entries())) {
+            const user = this.settings.users.find(u => u.id === userId);
+            const text = `Record ${measurements.join(', ')}${user && this.settings.users.length > 1 ? ` for ${user.name}` : ''}`;
+            await this.journalService.appendJournalLine(date, text, false, ' ');
+        }
+    }
+
+    groupByUser(reminders: DueReminder[]): Map<string, string[]> {
+        const byUser = new Map<string, string[]>();
+        reminders.forEach(reminder => {
+            if (!byUser.has(reminder.userId)) byUser.set(reminder.userId, []);
+            byUser.get(reminder.userId)!.push(reminder.measurement);
+        });
+        return byUser;
+    }
+
+    /**
+     * Start of the current period of a measurement's schedule. A reading since then means it's not due.
+     */
+    private getPeriodStart(measurement: Measurement): number {
+        const now = this.moment();
+
+        switch (measurement.reminder!.frequency) {
+            case 'weekly': {
+                const weekday = measurement.reminder!.weekday;
+                if (weekday === undefined) return now.clone().subtract(7, 'days').startOf('day').valueOf();
+                // The most recent scheduled weekday, today included
+                const daysBack = (now.day() - weekday + 7) % 7;
+                return now.clone().subtract(daysBack, 'days').startOf('day').valueOf();
+            }
+            case 'monthly':
+                return now.clone().subtract(1, 'month').startOf('day').valueOf();
+            case 'yearly':
+                return now.clone().subtract(1, 'year').startOf('day').valueOf();
+            default:
+                return now.clone().startOf('day').valueOf();
+        }
+    }
+
+    private getState(userId: string, measurement: string, create = false): ReminderState {
+        this.settings.reminderState ??= {};
+        const userState = this.settings.reminderState[userId] ?? {};
+        if (create) {
+            this.settings.reminderState[userId] = userState;
+            userState[measurement] ??= {};
+        }
+        return userState[measurement] ?? {};
+    }
+}
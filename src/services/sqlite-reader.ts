@@ -0,0 +1,227 @@
+export type SqliteValue = number | string | Uint8Array | null;
+
+const HEADER = 'SQLite format 3\0';
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+
+interface SqliteTable {
+    name: string;
+    rootPage: number;
+    columns: string[];
+    rowidColumn?: string; // An INTEGER PRIMARY KEY column, stored as the rowid
+}
+
+/**
+ * Just enough of the SQLite file format to read the rows of ordinary tables from a database
+ * file, e.g. a Health Connect export. Indexes, WITHOUT ROWID tables, UTF-16 databases and
+ * uncheckpointed WAL files are not supported.
+ */
+export class SqliteReader {
+    private view: DataView;
+    private bytes: Uint8Array;
+    private pageSize: number;
+    private usableSize: number;
+    private decoder = new TextDecoder();
+    private tables = new Map<string, SqliteTable>();
+
+    constructor(buffer: ArrayBuffer) {
+        this.bytes = new Uint8Array(buffer);
+        this.view = new DataView(buffer);
+
+        if (this.decoder.decode(this.bytes.subarray(0, 16)) !== HEADER) {
+            throw new Error('Not an SQLite database');
+        }
+        if (this.view.getUint32(56) > 1) {
+            throw new Error('Only UTF-8 databases are supported');
+        }
+
+        const pageSize = this.view.getUint16(16);
+        this.pageSize = pageSize === 1 ? 65536 : pageSize;
+        this.usableSize = this.pageSize - this.view.getUint8(20);
+
+        // The schema table lives on page 1: type, name, tbl_name, rootpage, sql
+        for (const [, row] of this.readTree(1)) {
+            const [type, name, , rootPage, sql] = row;
+            if (type !== 'table' || typeof name !== 'string' || typeof rootPage !== 'number' || typeof sql !== 'string') continue;
+            if (/\)\s*WITHOUT\s+ROWID\s*;?\s*$/i.test(sql)) continue;
+            this.tables.set(name, { name, rootPage, ...parseColumns(sql) });
+        }
+    }
+
+    getTableNames(): string[] {
+        return Array.from(this.tables.keys());
+    }
+
+    getColumns(table: string): string[] {
+        return this.tables.get(table)?.columns || [];
+    }
+
+    /**
+     * Every row of a table as an object keyed by column name, in rowid order
+     */
+    readTable(name: string): Array<Record<string, SqliteValue>> {
+        const table = this.tables.get(name);
+        if (!table) return [];
+
+        return this.readTree(table.rootPage).map(([rowid, values]) => {
+            const row: Record<string, SqliteValue> = {};
+            table.columns.forEach((column, i) => row[column] = values[i] ?? null);
+            if (table.rowidColumn) row[table.rowidColumn] = rowid;
+            return row;
+        });
+    }
+
+    /**
+     * Rowids and values of every cell in a table b-tree
+     */
+    private readTree(rootPage: number): Array<[number, SqliteValue[]]> {
+        const rows: Array<[number, SqliteValue[]]> = [];
+        const pages = [rootPage];
+        const visited = new Set<number>();
+
+        while (pages.length > 0) {
+            const page = pages.pop()!;
+            if (visited.has(page)) continue;
+            visited.add(page);
+
+            const start = (page - 1) * this.pageSize;
+            // Page 1 starts with the database header
+            const header = page === 1 ? 100 : start;
+            const type = this.view.getUint8(header);
+            const cellCount = this.view.getUint16(header + 3);
+
+            if (type === INTERIOR_TABLE_PAGE) {
+                // Visit children right to left so rows come out in rowid order
+                pages.push(this.view.getUint32(header + 8));
+                for (let i = cellCount - 1; i >= 0; i--) {
+                    const cell = start + this.view.getUint16(header + 12 + i * 2);
+                    pages.push(this.view.getUint32(cell));
+                }
+            } else if (type === LEAF_TABLE_PAGE) {
+                for (let i = 0; i < cellCount; i++) {
+                    const cell = start + this.view.getUint16(header + 8 + i * 2);
+                    rows.push(this.readCell(cell));
+                }
+            }
+        }
+
+        return rows;
+    }
+
+    private readCell(offset: number): [number, SqliteValue[]] {
+        const [payloadSize, afterSize] = readVarint(this.bytes, offset);
+        const [rowid, payloadStart] = readVarint(this.bytes, afterSize);
+        return [rowid, this.readRecord(this.readPayload(payloadStart, payloadSize))];
+    }
+
+    /**
+     * The cell's payload, following overflow pages when it doesn't fit on its page
+     */
+    private readPayload(start: number, size: number): Uint8Array {
+        const maxLocal = this.usableSize - 35;
+        if (size <= maxLocal) return this.bytes.subarray(start, start + size);
+
+        const minLocal = Math.floor((this.usableSize - 12) * 32 / 255) - 23;
+        const spill = minLocal + (size - minLocal) % (this.usableSize - 4);
+        const local = spill <= maxLocal ? spill : minLocal;
+
+        const payload = new Uint8Array(size);
+        payload.set(this.bytes.subarray(start, start + local));
+        let written = local;
+        let page = this.view.getUint32(start + local);
+
+        while (page && written < size) {
+            const pageStart = (page - 1) * this.pageSize;
+            const length = Math.min(size - written, this.usableSize - 4);
+            payload.set(this.bytes.subarray(pageStart + 4, pageStart + 4 + length), written);
+            written += length;
+            page = this.view.getUint32(pageStart);
+        }
+
+        return payload;
+    }
+
+    private readRecord(payload: Uint8Array): SqliteValue[] {
+        const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+        const [headerSize, firstType] = readVarint(payload, 0);
+        const types: number[] = [];
+        for (let offset = firstType; offset < headerSize;) {
+            const [type, next] = readVarint(payload, offset);
+            types.push(type);
+            offset = next;
+        }
+
+        const values: SqliteValue[] = [];
+        let offset = headerSize;
+        for (const type of types) {
+            switch (type) {
+                case 0: values.push(null); break;
+                case 1: values.push(view.getInt8(offset)); offset += 1; break;
+                case 2: values.push(view.getInt16(offset)); offset += 2; break;
+                case 3: values.push((view.getInt8(offset) << 16) | view.getUint16(offset + 1)); offset += 3; break;
+                case 4: values.push(view.getInt32(offset)); offset += 4; break;
+                case 5: values.push(view.getInt16(offset) * 0x100000000 + view.getUint32(offset + 2)); offset += 6; break;
+                case 6: values.push(view.getInt32(offset) * 0x100000000 + view.getUint32(offset + 4)); offset += 8; break;
+                case 7: values.push(view.getFloat64(offset)); offset += 8; break;
+                case 8: values.push(0); break;
+                case 9: values.push(1); break;
+                default: {
+                    const length = type >= 12 ? Math.floor((type - 12) / 2) : 0;
+                    const data = payload.subarray(offset, offset + length);
+                    values.push(type % 2 === 1 ? this.decoder.decode(data) : data);
+                    offset += length;
+                }
+            }
+        }
+
+        return values;
+    }
+}
+
+/**
+ * A big-endian variable length integer of up to 9 bytes, and the offset after it
+ */
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+        const byte = bytes[offset + i];
+        value = value * 128 + (byte & 0x7f);
+        if (byte < 0x80) return [value, offset + i + 1];
+    }
+    return [value * 256 + bytes[offset + 8], offset + 9];
+}
+
+/**
+ * Column names from a CREATE TABLE statement, in storage order
+ */
+function parseColumns(sql: string): { columns: string[], rowidColumn?: string } {
+    const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+    const definitions: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of body) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            definitions.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    definitions.push(current.trim());
+
+    const columns: string[] = [];
+    let rowidColumn: string | undefined;
+    for (const definition of definitions) {
+        if (/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i.test(definition)) continue;
+
+        const name = /^("[^"]+"|`[^`]+`|\[[^\]]+\]|\S+)/.exec(definition)?.[1].replace(/^["`[]|["`\]]$/g, '');
+        if (!name) continue;
+        columns.push(name);
+        if (/^\S+\s+INTEGER\s+PRIMARY\s+KEY\b/i.test(definition)) rowidColumn = name;
+    }
+
+    return { columns, rowidColumn };
+}
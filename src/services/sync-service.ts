@@ -0,0 +1,298 @@
+import { Notice } from 'obsidian';
+import type { Settings, MeasurementRecord, SyncLedgerEntry } from '../types';
+import { convert, formatValue, getDimension, getDisplayUnit, getUserSystem } from '../units';
+import { DEFAULT_METRIC_MAPPING, HEALTH_METRIC_UNITS, HealthMetric, HealthSample, HealthSource } from './health-source';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const INITIAL_SYNC_WINDOW = 7 * DAY_SECONDS;
+// Scales often upload readings late, so each sync re-checks a day before the cursor
+const SYNC_OVERLAP = DAY_SECONDS;
+// Ledger keys older than this (relative to the cursor) can no longer be re-fetched by an incremental sync
+const LEDGER_RETENTION = 90 * DAY_SECONDS;
+const BACKFILL_CHUNK = 30 * DAY_SECONDS;
+
+export interface BackfillOptions {
+    onProgress?: (completedChunks: number, totalChunks: number) => void;
+    isCancelled?: () => boolean;
+}
+
+export class SyncService {
+    private moment = (window as any).moment;
+    private intervals = new Map<string, number>();
+    private running = new Set<string>();
+
+    constructor(
+        private settings: Settings,
+        private writeRecords: (records: MeasurementRecord[]) => Promise<void>,
+        private saveSettings: () => Promise<void>
+    ) { }
+
+    /**
+     * (Re)schedule automatic syncing of a source. An interval of 0 disables it.
+     */
+    schedule(source: HealthSource, intervalMinutes: number) {
+        this.unschedule(source.id);
+
+        if (intervalMinutes > 0) {
+            this.intervals.set(source.id, window.setInterval(
+                () => this.sync(source, true).catch(error => console.error(`${source.name} sync failed:`, error)),
+                intervalMinutes * 60 * 1000 // Convert minutes to milliseconds
+            ));
+        }
+    }
+
+    unschedule(sourceId: string) {
+        const interval = this.intervals.get(sourceId);
+        if (interval) {
+            window.clearInterval(interval);
+            this.intervals.delete(sourceId);
+        }
+    }
+
+    clear() {
+        for (const sourceId of Array.from(this.intervals.keys())) {
+            this.unschedule(sourceId);
+        }
+    }
+
+    /**
+     * Fetch everything since the source's cursor and write samples not yet in the ledger.
+     * Quiet syncs (scheduled ones) only show a notice when something was imported.
+     */
+    async sync(source: HealthSource, quiet = false): Promise<number> {
+        if (!source.isConnected() || this.running.has(source.id)) {
+            return 0;
+        }
+
+        this.running.add(source.id);
+        try {
+            // Retry outbound writes first so they are already in the ledger when we fetch
+            await source.flushPendingWrites?.().catch(error => console.error(`${source.name} write retry failed:`, error));
+
+            const userId = this.getUserForSource(source.id);
+            const ledger = this.getLedger(source.id, userId);
+
+            const end = Math.floor(Date.now() / 1000);
+            const start = ledger.lastSynced
+                ? ledger.lastSynced - SYNC_OVERLAP
+                : end - INITIAL_SYNC_WINDOW;
+
+            const samples = await source.fetchSamples(start, end);
+            const imported = await this.importSamples(source.id, userId, samples, true);
+
+            if (imported > 0) {
+                new Notice(`Imported ${imported} new measurement${imported === 1 ? '' : 's'} from ${source.name}`);
+            } else if (!quiet) {
+                new Notice(`No new measurements from ${source.name}`);
+            }
+            return imported;
+        } catch (error) {
+            new Notice(`Failed to sync with ${source.name}. Check the console for details.`);
+            throw error;
+        } finally {
+            this.running.delete(source.id);
+        }
+    }
+
+    /**
+     * Fetch a historical range in chunks and write everything in a single batched pass.
+     * Nothing is written if the backfill is cancelled before all chunks are fetched.
+     * The regular sync cursor is left where it is.
+     */
+    async backfill(
+        source: HealthSource,
+        startTime: number,
+        endTime: number,
+        options: BackfillOptions = {}
+    ): Promise<number> {
+        if (!source.isConnected()) {
+            throw new Error(`${source.name} is not connected`);
+        }
+        // Both write the same ledger, so one saving settings would drop the other's keys
+        if (this.running.has(source.id)) {
+            throw new Error(`${source.name} is already syncing, try again when it has finished`);
+        }
+
+        this.running.add(source.id);
+        try {
+            const totalChunks = Math.max(1, Math.ceil((endTime - startTime) / BACKFILL_CHUNK));
+            const samples: HealthSample[] = [];
+
+            // Each chunk goes through the source's own rate limiting
+            for (let chunk = 0; chunk < totalChunks; chunk++) {
+                if (options.isCancelled?.()) {
+                    return 0;
+                }
+
+                const chunkStart = startTime + chunk * BACKFILL_CHUNK;
+                const chunkEnd = Math.min(endTime, chunkStart + BACKFILL_CHUNK);
+                samples.push(...await source.fetchSamples(chunkStart, chunkEnd));
+                options.onProgress?.(chunk + 1, totalChunks);
+            }
+
+            if (options.isCancelled?.()) {
+                return 0;
+            }
+
+            return await this.importSamples(source.id, this.getUserForSource(source.id), samples);
+        } finally {
+            this.running.delete(source.id);
+        }
+    }
+
+    /**
+     * Write samples that are not in the ledger yet. Only regular syncs advance the cursor, so
+     * backfills and file imports of older readings don't make the next sync skip or refetch a range.
+     * Returns the number of records written.
+     */
+    async importSamples(sourceId: string, userId: string, samples: HealthSample[], advanceCursor = false): Promise<number> {
+        const ledger = this.getLedger(sourceId, userId);
+        const seen = new Set([...ledger.imported, ...(ledger.history || [])]);
+
+        const fresh = samples.filter(sample => !seen.has(this.getSampleKey(sample)));
+        const records = this.toRecords(fresh, userId);
+        if (records.length === 0) {
+            return 0;
+        }
+
+        await this.writeRecords(records.map(({ record }) => record));
+
+        const written: string[] = [];
+        for (const { samples: recordSamples } of records) {
+            for (const sample of recordSamples) {
+                written.push(this.getSampleKey(sample));
+                if (advanceCursor) {
+                    ledger.lastSynced = Math.max(ledger.lastSynced ?? 0, sample.timestamp);
+                }
+            }
+        }
+
+        ledger.imported = this.pruneKeys(Array.from(new Set([...ledger.imported, ...written])), ledger.lastSynced);
+
+        // Backfills and file imports write samples older than the retention window. Their keys are
+        // kept apart so running the same backfill or import again still skips them.
+        const kept = new Set(ledger.imported);
+        const older = written.filter(key => !kept.has(key));
+        if (older.length > 0) {
+            ledger.history = Array.from(new Set([...(ledger.history || []), ...older]));
+        }
+        await this.saveSettings();
+
+        return records.length;
+    }
+
+    /**
+     * Group samples taken at the same time into records keyed by configured measurement names
+     */
+    toRecords(samples: HealthSample[], userId: string): Array<{ record: MeasurementRecord, samples: HealthSample[] }> {
+        const records = new Map<number, { record: MeasurementRecord, samples: HealthSample[] }>();
+
+        for (const sample of samples) {
+            const measurementName = this.getMeasurementName(sample);
+            if (!measurementName) continue;
+
+            let entry = records.get(sample.timestamp);
+            if (!entry) {
+                entry = {
+                    record: {
+                        date: this.moment(sample.timestamp * 1000).format('YYYY-MM-DD HH:mm'),
+                        userId
+                    },
+                    samples: []
+                };
+                records.set(sample.timestamp, entry);
+            }
+
+            entry.record[measurementName] = formatValue(this.convertSample(sample, measurementName, userId));
+            entry.samples.push(sample);
+        }
+
+        return Array.from(records.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([, entry]) => entry);
+    }
+
+    /**
+     * Reverse of toRecords: turn a record's mapped measurements back into canonical samples
+     */
+    fromRecord(record: MeasurementRecord): HealthSample[] {
+        const timestamp = this.moment(record.date).unix();
+        const samples: HealthSample[] = [];
+
+        for (const metric of Object.keys(HEALTH_METRIC_UNITS) as HealthMetric[]) {
+            const name = this.settings.metricMapping?.[metric] ?? DEFAULT_METRIC_MAPPING[metric];
+            const value = name ? parseFloat(record[name]) : NaN;
+            if (isNaN(value)) continue;
+
+            // Convert back from the unit the value was recorded in
+            const measurement = this.settings.measurements.find(m => m.name === name);
+            const unit = measurement && getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, record.userId));
+            const canonical = unit && getDimension(unit) === getDimension(HEALTH_METRIC_UNITS[metric])
+                ? convert(value, unit, HEALTH_METRIC_UNITS[metric])
+                : value;
+            samples.push({ metric, timestamp, value: canonical });
+        }
+
+        return samples;
+    }
+
+    /**
+     * Record samples as already present in the vault so the next sync skips them
+     */
+    async markImported(sourceId: string, userId: string, samples: HealthSample[]): Promise<void> {
+        if (samples.length === 0) return;
+
+        const ledger = this.getLedger(sourceId, userId);
+        const keys = new Set(ledger.imported);
+        samples.forEach(sample => keys.add(this.getSampleKey(sample)));
+        ledger.imported = Array.from(keys);
+        await this.saveSettings();
+    }
+
+    getSampleKey(sample: HealthSample): string {
+        return `${sample.metric}:${sample.timestamp}`;
+    }
+
+    /**
+     * The user that a source's data belongs to: the profile linked to it,
+     * falling back to the default user while no profile claims the source
+     */
+    getUserForSource(sourceId: string): string {
+        const linked = this.settings.users.find(user => user.linkedSources?.includes(sourceId));
+        return linked?.id || this.settings.defaultUser || this.settings.users[0]?.id || '';
+    }
+
+    private getLedger(sourceId: string, userId: string): SyncLedgerEntry {
+        if (!this.settings.syncLedger) {
+            this.settings.syncLedger = {};
+        }
+        const sourceLedger = this.settings.syncLedger[sourceId] ??= {};
+        return sourceLedger[userId] ??= { imported: [] };
+    }
+
+    private pruneKeys(keys: string[], cursor?: number): string[] {
+        if (!cursor) return keys;
+
+        const cutoff = cursor - LEDGER_RETENTION;
+        return keys.filter(key => Number(key.split(':').pop()) >= cutoff);
+    }
+
+    private getMeasurementName(sample: HealthSample): string | undefined {
+        const name = this.settings.metricMapping?.[sample.metric] ?? DEFAULT_METRIC_MAPPING[sample.metric];
+        if (!name) return undefined;
+
+        // Only map onto measurements the user has configured
+        return this.settings.measurements.some(m => m.name === name) ? name : undefined;
+    }
+
+    private convertSample(sample: HealthSample, measurementName: string, userId: string): number {
+        const measurement = this.settings.measurements.find(m => m.name === measurementName);
+        const unit = measurement && getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, userId));
+        if (!unit || getDimension(unit) !== getDimension(HEALTH_METRIC_UNITS[sample.metric])) {
+            return sample.value;
+        }
+
+        // Convert into the unit the measurement is displayed in (e.g. kg to lbs)
+        return convert(sample.value, HEALTH_METRIC_UNITS[sample.metric], unit);
+    }
+}
@@ -0,0 +1,139 @@
+import type { Settings } from '../types';
+import type { MeasurementIndex } from './measurement-index';
+import { formatValue, getDisplayUnit, getUserSystem, tryConvertMeasurementValue } from '../units';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const MONTH_MS = 30 * DAY_MS;
+// How far back the weekly and monthly rates look
+const WEEKLY_RATE_WINDOW_MS = 4 * WEEK_MS;
+const MONTHLY_RATE_WINDOW_MS = 3 * MONTH_MS;
+
+export interface TrendPoint {
+    timestamp: number; // Unix milliseconds
+    value: number;
+}
+
+export interface TrendStats {
+    unit: string;
+    count: number;
+    latest: number;
+    latestTimestamp: number;
+    delta?: number; // Change since the previous reading
+    trend: number;
+    weeklyRate?: number; // Change of the trend per week
+    monthlyRate?: number; // Change of the trend per 30 days
+    min: number;
+    max: number;
+    average: number;
+}
+
+/**
+ * Smooths noisy readings into a trend, Hacker's Diet style, and summarises how they change
+ */
+export class TrendService {
+    constructor(private settings: Settings, private index: MeasurementIndex) { }
+
+    /**
+     * Trend value at each point, oldest first. Either an exponential moving average
+     * or the average of the readings within the configured window.
+     */
+    smooth(points: TrendPoint[]): number[] {
+        if (this.settings.trendMethod === 'sma') {
+            const window = Math.max(1, this.settings.trendWindow || 7) * DAY_MS;
+            return points.map(point => {
+                const inWindow = points.filter(p => p.timestamp <= point.timestamp && p.timestamp > point.timestamp - window);
+                return inWindow.reduce((sum, p) => sum + p.value, 0) / inWindow.length;
+            });
+        }
+
+        const smoothing = this.settings.trendSmoothing || 0.1;
+        const trend: number[] = [];
+        points.forEach((point, i) => {
+            trend.push(i === 0 ? point.value : trend[i - 1] + smoothing * (point.value - trend[i - 1]));
+        });
+        return trend;
+    }
+
+    /**
+     * Least-squares slope of the points, per millisecond
+     */
+    slope(points: TrendPoint[]): number | undefined {
+        if (points.length < 2) return undefined;
+
+        const meanTime = points.reduce((sum, p) => sum + p.timestamp, 0) / points.length;
+        const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+        const covariance = points.reduce((sum, p) => sum + (p.timestamp - meanTime) * (p.value - meanValue), 0);
+        const variance = points.reduce((sum, p) => sum + Math.pow(p.timestamp - meanTime, 2), 0);
+
+        return variance > 0 ? covariance / variance : undefined;
+    }
+
+    /**
+     * Latest value, trend, rates and range statistics of a measurement, in the unit the user records in.
+     * The trend always starts from the first reading, `from` only limits min, max and average.
+     */
+    getStats(measurementName: string, userId?: string, from?: number): TrendStats | undefined {
+        const measurement = this.settings.measurements.find(m => m.name === measurementName);
+        if (!measurement) return undefined;
+
+        const unit = getDisplayUnit(measurement, this.settings, getUserSystem(this.settings, userId));
+        const points = this.index.getReadings({ measurement: measurementName, userId }).flatMap(reading => {
+            const value = tryConvertMeasurementValue(measurement, reading.value, reading.unit, unit);
+            return value === undefined ? [] : [{ timestamp: reading.timestamp, value }];
+        });
+        if (points.length === 0) return undefined;
+
+        const trend = this.smooth(points);
+        const latest = points[points.length - 1];
+        const trendPoints = points.map((p, i) => ({ timestamp: p.timestamp, value: trend[i] }));
+        const rate = (window: number, per: number) => {
+            const slope = this.slope(trendPoints.filter(p => p.timestamp >= latest.timestamp - window));
+            return slope === undefined ? undefined : slope * per;
+        };
+
+        const inRange = points.filter(p => from === undefined || p.timestamp >= from).map(p => p.value);
+        const values = inRange.length > 0 ? inRange : [latest.value];
+
+        return {
+            unit,
+            count: inRange.length,
+            latest: latest.value,
+            latestTimestamp: latest.timestamp,
+            delta: points.length > 1 ? latest.value - points[points.length - 2].value : undefined,
+            trend: trend[trend.length - 1],
+            weeklyRate: rate(WEEKLY_RATE_WINDOW_MS, WEEK_MS),
+            monthlyRate: rate(MONTHLY_RATE_WINDOW_MS, MONTH_MS),
+            min: Math.min(...values),
+            max: Math.max(...values),
+            average: values.reduce((sum, value) => sum + value, 0) / values.length
+        };
+    }
+
+    /**
+     * Short summary for the measurement modal, e.g. "last: 81.2 kg, trend: 80.9 kg, -0.3 kg/wk"
+     */
+    getHint(measurementName: string, userId?: string): string | undefined {
+        const stats = this.getStats(measurementName, userId);
+        if (!stats) return undefined;
+
+        const parts = [`last: ${this.format(stats.latest, stats.unit)}`];
+        if (stats.count > 1) {
+            parts.push(`trend: ${this.format(stats.trend, stats.unit)}`);
+        }
+        if (stats.weeklyRate !== undefined) {
+            parts.push(`${this.formatChange(stats.weeklyRate, stats.unit)}/wk`);
+        }
+        return parts.join(', ');
+    }
+
+    formatChange(value: number, unit: string): string {
+        // Round first so tiny changes read as 0.0 rather than -0.0
+        const rounded = parseFloat(formatValue(value));
+        return (rounded > 0 ? '+' : '') + this.format(rounded, unit);
+    }
+
+    private format(value: number, unit: string): string {
+        return unit ? `${formatValue(value)} ${unit}` : formatValue(value);
+    }
+}
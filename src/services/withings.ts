@@ -1,5 +1,7 @@
-import { requestUrl, RequestUrlParam } from 'obsidian';
+import { requestUrl, Notice, App } from 'obsidian';
 import type { Settings } from '../types';
+import { OAuthCallbackServer } from './oauth-server';
+import type { HealthSample, HealthSource } from './health-source';
 
 interface WithingsAuthConfig {
     clientId: string;
@@ -26,14 +28,18 @@ interface WithingsMeasurement {
 
 interface WithingsServiceConfig extends WithingsAuthConfig {
     onSettingsChange: (settings: Settings) => Promise<void>;
+    app: App;
 }
 
-export class WithingsService {
+export class WithingsService implements HealthSource {
+    readonly id = 'withings';
+    readonly name = 'Withings';
     private accessToken?: string;
     private refreshToken?: string;
     private tokenExpiry?: number;
     private lastRequestTime = 0;
     private readonly minRequestInterval = 1000; // 1 second between requests
+    readonly oauthServer: OAuthCallbackServer;
 
     constructor(
         private settings: Settings,
@@ -43,6 +49,7 @@ export class WithingsService {
         this.accessToken = settings.withingsAccessToken;
         this.refreshToken = settings.withingsRefreshToken;
         this.tokenExpiry = settings.withingsTokenExpiry;
+        this.oauthServer = new OAuthCallbackServer(config.app);
     }
 
     private async rateLimit() {
@@ -56,25 +63,22 @@ export class WithingsService {
         this.lastRequestTime = Date.now();
     }
 
-    private async handleApiError(error: any): never {
-        console.error('Withings API error:', error);
+    private handleApiError(status: number, error?: string): never {
         let message = 'Failed to connect to Withings';
 
-        if (error.response) {
-            const status = error.response.status;
-            switch (status) {
-                case 401:
-                    message = 'Authentication failed. Please re-authenticate with Withings.';
-                    break;
-                case 429:
-                    message = 'Too many requests. Please try again later.';
-                    break;
-                case 503:
-                    message = 'Withings service is temporarily unavailable.';
-                    break;
-                default:
-                    message = `API error (${status}): ${error.message}`;
-            }
+        switch (status) {
+            case 401:
+                message = 'Authentication failed. Please reconnect your Withings account.';
+                break;
+            case 429:
+            case 601:
+                message = 'Too many requests. Please try again later.';
+                break;
+            case 503:
+                message = 'Withings service is temporarily unavailable.';
+                break;
+            default:
+                message = `Withings API error (${status})${error ? `: ${error}` : ''}`;
         }
 
         new Notice(message, 5000);
@@ -85,47 +89,46 @@ export class WithingsService {
         // Generate a random state value for security
         const state = Math.random().toString(36).substring(7);
 
-        // Store state temporarily to verify when handling redirect
+        // Store state to verify when the callback arrives
         this.settings.withingsAuthState = state;
         await this.config.onSettingsChange(this.settings);
 
-        // Construct the auth URL with all required parameters
         const params = new URLSearchParams({
             response_type: 'code',
             client_id: this.config.clientId,
-            redirect_uri: this.settings.withingsRedirectUri,
-            scope: 'user.metrics',
+            redirect_uri: this.config.redirectUri,
+            scope: this.config.scope,
             state: state
         });
 
-        console.log('Authorization parameters (without sensitive data):', {
-            ...Object.fromEntries(params),
-            client_id: '[REDACTED]'
-        });
-
         const authUrl = `https://account.withings.com/oauth2_user/authorize2?${params.toString()}`;
 
-        console.log('Authorization URL (without credentials):',
-            authUrl.replace(this.config.clientId, '[REDACTED]')
-        );
-
-        // Open auth URL in default browser
-        window.open(authUrl);
-
-        // Show detailed instructions to user
-        new Notice(
-            'Withings Authentication:\n\n' +
-            '1. Complete authorization in your browser\n' +
-            '2. After authorizing, you will be redirected\n' +
-            '3. Copy both the "code" and "state" parameters from the redirect URL\n' +
-            '4. Use Command Palette and run "Complete Withings Authentication"\n' +
-            '5. Paste the code and state in the dialog\n\n' +
-            'The redirect URL will look like:\n' +
-            `${this.settings.withingsRedirectUri}?code=XXXX&state=YYYY`,
-            20000  // Show for 20 seconds
-        );
-
-        return true;
+        // Ensure server is running before opening URL
+        await this.oauthServer.close().catch(() => { }); // Close any existing server
+        await this.oauthServer.start();
+
+        try {
+            // Open auth URL in default browser
+            window.open(authUrl);
+
+            const { code, state: returnedState } = await this.oauthServer.waitForCallback();
+
+            if (!code || !returnedState) {
+                throw new Error('Authentication failed - no code or state received');
+            }
+
+            return await this.completeAuthentication(code, returnedState);
+        } catch (error) {
+            console.error('Withings authentication failed:', error);
+            new Notice('Withings authentication failed. Please try again.');
+            return false;
+        } finally {
+            try {
+                await this.oauthServer.close();
+            } catch (e) {
+                console.error('Error closing OAuth server:', e);
+            }
+        }
     }
 
     async completeAuthentication(code: string, state: string): Promise<boolean> {
@@ -137,89 +140,97 @@ export class WithingsService {
         try {
             await this.rateLimit();
 
-            console.log('Starting token request with code:', code);
-
-            // Construct request parameters
-            const params = {
-                action: 'requesttoken',
-                client_id: this.config.clientId,
-                client_secret: this.config.clientSecret,
-                grant_type: 'authorization_code',
-                code: code,
-                redirect_uri: this.config.redirectUri
-            };
-
-            console.log('Token request parameters:', params);
-
-            const reqBody = new URLSearchParams(params).toString();
-            console.log('Request body:', reqBody);
-
             const response = await requestUrl({
                 url: 'https://wbsapi.withings.net/v2/oauth2',
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/x-www-form-urlencoded'
                 },
-                body: reqBody
+                body: new URLSearchParams({
+                    action: 'requesttoken',
+                    client_id: this.config.clientId,
+                    client_secret: this.config.clientSecret,
+                    grant_type: 'authorization_code',
+                    code: code,
+                    redirect_uri: this.config.redirectUri
+                }).toString()
             });
 
-            console.log('Raw response:', response);
-            console.log('Response status:', response.status);
-            console.log('Response body:', response.json);
-
-            if (response.status !== 200) {
-                throw new Error(`HTTP error ${response.status}: ${JSON.stringify(response.json)}`);
+            // Withings reports errors in the body status rather than the HTTP status
+            if (response.json?.status !== 0 || !response.json?.body?.access_token) {
+                this.handleApiError(response.json?.status ?? response.status, response.json?.error);
             }
 
-            if (!response.json?.body?.access_token) {
-                throw new Error('Invalid response format: ' + JSON.stringify(response.json));
-            }
+            await this.storeTokens(response.json.body);
 
-            const data = response.json.body;
-            console.log('Parsed token response:', {
-                ...data,
-                access_token: '[REDACTED]',
-                refresh_token: '[REDACTED]'
-            });
+            new Notice('Successfully connected to Withings');
+            return true;
+        } catch (error) {
+            // Clear any partial token state on failure
+            await this.clearTokens();
+            throw error;
+        }
+    }
 
-            // Store tokens
-            this.accessToken = data.access_token;
-            this.refreshToken = data.refresh_token;
-            this.tokenExpiry = Date.now() + (data.expires_in * 1000);
+    async disconnect(): Promise<void> {
+        await this.clearTokens();
+    }
 
-            // Save to settings
-            this.settings.withingsAccessToken = this.accessToken;
-            this.settings.withingsRefreshToken = this.refreshToken;
-            this.settings.withingsTokenExpiry = this.tokenExpiry;
-            await this.config.onSettingsChange(this.settings);
+    isConnected(): boolean {
+        return !!this.refreshToken;
+    }
 
-            new Notice('Successfully connected to Withings!');
-            return true;
-        } catch (error) {
-            console.error('Withings token request error:', {
-                error,
-                message: error.message,
-                response: error.response,
-                stack: error.stack
-            });
+    async fetchSamples(startTime: number, endTime: number): Promise<HealthSample[]> {
+        const measurements = await this.getMeasurements(startTime, endTime);
+        const samples: HealthSample[] = [];
 
-            // Try to extract detailed error information
-            let errorMessage = 'Failed to complete authentication';
-            if (error.response?.json?.error) {
-                errorMessage += `: ${error.response.json.error}`;
-            } else if (error.message) {
-                errorMessage += `: ${error.message}`;
+        for (const measurement of measurements) {
+            if (measurement.weight) {
+                samples.push({ metric: 'weight', timestamp: measurement.date, value: measurement.weight });
+            }
+            if (measurement.fat_ratio) {
+                samples.push({ metric: 'bodyFat', timestamp: measurement.date, value: measurement.fat_ratio });
+            }
+            if (measurement.fat_mass) {
+                samples.push({ metric: 'fatMass', timestamp: measurement.date, value: measurement.fat_mass });
+            }
+            if (measurement.lean_mass) {
+                samples.push({ metric: 'leanMass', timestamp: measurement.date, value: measurement.lean_mass });
             }
-
-            new Notice(errorMessage, 10000);
-            throw error;
         }
+
+        return samples;
+    }
+
+    private async storeTokens(data: WithingsTokenResponse): Promise<void> {
+        this.accessToken = data.access_token;
+        this.refreshToken = data.refresh_token;
+        this.tokenExpiry = Date.now() + (data.expires_in * 1000);
+
+        this.settings.withingsAccessToken = this.accessToken;
+        this.settings.withingsRefreshToken = this.refreshToken;
+        this.settings.withingsTokenExpiry = this.tokenExpiry;
+        this.settings.withingsAuthState = undefined;
+        await this.config.onSettingsChange(this.settings);
+    }
+
+    private async clearTokens(): Promise<void> {
+        this.accessToken = undefined;
+        this.refreshToken = undefined;
+        this.tokenExpiry = undefined;
+
+        this.settings.withingsAccessToken = '';
+        this.settings.withingsRefreshToken = '';
+        this.settings.withingsTokenExpiry = undefined;
+        await this.config.onSettingsChange(this.settings);
     }
 
     private async refreshAccessToken(): Promise<boolean> {
         if (!this.refreshToken) return false;
 
         try {
+            await this.rateLimit();
+
             const response = await requestUrl({
                 url: 'https://wbsapi.withings.net/v2/oauth2',
                 method: 'POST',
@@ -231,16 +242,17 @@ export class WithingsService {
                     grant_type: 'refresh_token',
                     client_id: this.config.clientId,
                     client_secret: this.config.clientSecret,
-                    refresh_token: this.refreshToken,
-                    scope: 'user.metrics,user.activity'
+                    refresh_token: this.refreshToken
                 }).toString()
             });
 
-            const data: WithingsTokenResponse = response.json.body;
-            this.accessToken = data.access_token;
-            this.refreshToken = data.refresh_token;
-            this.tokenExpiry = Date.now() + (data.expires_in * 1000);
+            if (response.json?.status !== 0 || !response.json?.body?.access_token) {
+                console.error('Failed to refresh Withings token:', response.json);
+                return false;
+            }
 
+            // Withings rotates refresh tokens, so the new pair must be persisted
+            await this.storeTokens(response.json.body);
             return true;
         } catch (error) {
             console.error('Failed to refresh token:', error);
@@ -249,13 +261,16 @@ export class WithingsService {
     }
 
     async getMeasurements(startDate: number, endDate: number): Promise<WithingsMeasurement[]> {
-        if (!this.accessToken || (this.tokenExpiry && Date.now() > this.tokenExpiry)) {
+        // Refresh if the token is missing or about to expire (within 5 minutes)
+        if (!this.accessToken || (this.tokenExpiry && Date.now() + 300000 > this.tokenExpiry)) {
             const refreshed = await this.refreshAccessToken();
             if (!refreshed) {
-                throw new Error('Failed to refresh access token');
+                throw new Error('Failed to refresh access token - please reconnect your Withings account');
             }
         }
 
+        await this.rateLimit();
+
         try {
             const response = await requestUrl({
                 url: 'https://wbsapi.withings.net/measure',
@@ -266,14 +281,19 @@ export class WithingsService {
                 },
                 body: new URLSearchParams({
                     action: 'getmeas',
+                    category: '1', // Real measurements only, no user objectives
                     startdate: startDate.toString(),
                     enddate: endDate.toString(),
-                    meastypes: '1,6,8' // Weight, Fat Ratio, Fat Mass
+                    meastypes: '1,5,6,8' // Weight, Fat Free Mass, Fat Ratio, Fat Mass
                 }).toString()
             });
 
+            if (response.json?.status !== 0) {
+                this.handleApiError(response.json?.status ?? response.status, response.json?.error);
+            }
+
             // Transform the response into our measurement format
-            return this.transformMeasurements(response.json.body.measuregrps);
+            return this.transformMeasurements(response.json.body.measuregrps || []);
         } catch (error) {
             console.error('Failed to fetch Withings measurements:', error);
             throw error;
@@ -292,6 +312,9 @@ export class WithingsService {
                     case 1: // Weight
                         measurement.weight = measure.value * Math.pow(10, measure.unit);
                         break;
+                    case 5: // Fat Free Mass
+                        measurement.lean_mass = measure.value * Math.pow(10, measure.unit);
+                        break;
                     case 6: // Fat Ratio
                         measurement.fat_ratio = measure.value * Math.pow(10, measure.unit);
                         break;
@@ -301,11 +324,11 @@ export class WithingsService {
                 }
             }
 
-            if (measurement.fat_mass && measurement.weight) {
+            if (!measurement.lean_mass && measurement.fat_mass && measurement.weight) {
                 measurement.lean_mass = measurement.weight - measurement.fat_mass;
             }
 
             return measurement;
         });
     }
-}
\ No newline at end of file
+}
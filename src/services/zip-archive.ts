@@ -0,0 +1,165 @@
+export interface ZipEntry {
+    name: string;
+    method: number; // 0 stored, 8 deflated
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is followed by a comment of at most 64 KB
+const MAX_END_SEARCH = 22 + 0xffff;
+
+/**
+ * Reads entries of a zip file, e.g. a health app export, without loading the whole archive.
+ * Only the central directory is read up front, entries are streamed and inflated on demand.
+ */
+export class ZipArchive {
+    private constructor(private file: Blob, readonly entries: ZipEntry[]) { }
+
+    static async open(file: Blob): Promise<ZipArchive> {
+        const tailStart = Math.max(0, file.size - MAX_END_SEARCH);
+        const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+        let end = -1;
+        for (let i = tail.byteLength - 22; i >= 0; i--) {
+            if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+                end = i;
+                break;
+            }
+        }
+        if (end < 0) throw new Error('Not a zip file');
+
+        let count = tail.getUint16(end + 10, true);
+        let directorySize = tail.getUint32(end + 12, true);
+        let directoryOffset = tail.getUint32(end + 16, true);
+
+        // Archives over 4 GB or with many entries keep the real values in a zip64 record
+        if (end >= 20 && tail.getUint32(end - 20, true) === ZIP64_END_LOCATOR) {
+            const recordOffset = getUint64(tail, end - 12);
+            const record = new DataView(await file.slice(recordOffset, recordOffset + 56).arrayBuffer());
+            if (record.getUint32(0, true) === ZIP64_END_OF_CENTRAL_DIRECTORY) {
+                count = getUint64(record, 32);
+                directorySize = getUint64(record, 40);
+                directoryOffset = getUint64(record, 48);
+            }
+        }
+
+        const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+        const decoder = new TextDecoder();
+        const entries: ZipEntry[] = [];
+        let offset = 0;
+
+        for (let i = 0; i < count && offset + 46 <= directory.byteLength; i++) {
+            if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+
+            const nameLength = directory.getUint16(offset + 28, true);
+            const extraLength = directory.getUint16(offset + 30, true);
+            const commentLength = directory.getUint16(offset + 32, true);
+            const entry: ZipEntry = {
+                name: decoder.decode(new Uint8Array(directory.buffer, offset + 46, nameLength)),
+                method: directory.getUint16(offset + 10, true),
+                compressedSize: directory.getUint32(offset + 20, true),
+                size: directory.getUint32(offset + 24, true),
+                localHeaderOffset: directory.getUint32(offset + 42, true)
+            };
+
+            readZip64Extra(directory, offset + 46 + nameLength, extraLength, entry);
+            entries.push(entry);
+            offset += 46 + nameLength + extraLength + commentLength;
+        }
+
+        return new ZipArchive(file, entries);
+    }
+
+    find(predicate: (name: string) => boolean): ZipEntry | undefined {
+        return this.entries.find(entry => !entry.name.endsWith('/') && predicate(entry.name));
+    }
+
+    /**
+     * The uncompressed bytes of an entry. Reports the compressed bytes read, for progress.
+     */
+    async stream(entry: ZipEntry, onRead?: (bytes: number) => void): Promise<ReadableStream<Uint8Array>> {
+        const header = new DataView(await this.file.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+        if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) throw new Error(`Damaged zip entry ${entry.name}`);
+
+        // The local header repeats the name and may carry a different extra field
+        const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        let read = 0;
+        const raw = this.file.slice(dataStart, dataStart + entry.compressedSize).stream()
+            .pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+                transform(chunk, controller) {
+                    read += chunk.byteLength;
+                    onRead?.(read);
+                    controller.enqueue(chunk);
+                }
+            }));
+
+        if (entry.method === 0) return raw;
+        if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.name}`);
+
+        // Not in the TypeScript DOM types yet, available in Electron and current browsers
+        const DecompressionStream = (window as any).DecompressionStream;
+        if (!DecompressionStream) throw new Error('Reading zip files is not supported on this device, unzip the export first');
+        return raw.pipeThrough(new DecompressionStream('deflate-raw'));
+    }
+
+    /**
+     * The whole uncompressed entry, for files that can't be read as a stream such as databases
+     */
+    async read(entry: ZipEntry, onRead?: (bytes: number) => void): Promise<ArrayBuffer> {
+        const reader = (await this.stream(entry, onRead)).getReader();
+        const chunks: Uint8Array[] = [];
+        let length = 0;
+
+        for (; ;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            length += value.byteLength;
+        }
+
+        const result = new Uint8Array(length);
+        let offset = 0;
+        for (const chunk of chunks) {
+            result.set(chunk, offset);
+            offset += chunk.byteLength;
+        }
+        return result.buffer;
+    }
+}
+
+function getUint64(view: DataView, offset: number): number {
+    return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Sizes and offsets that don't fit 32 bits are stored in the zip64 extra field, in this order
+ */
+function readZip64Extra(view: DataView, start: number, length: number, entry: ZipEntry) {
+    let offset = start;
+    while (offset + 4 <= start + length) {
+        const id = view.getUint16(offset, true);
+        const size = view.getUint16(offset + 2, true);
+        if (id === 0x0001) {
+            let field = offset + 4;
+            if (entry.size === 0xffffffff) {
+                entry.size = getUint64(view, field);
+                field += 8;
+            }
+            if (entry.compressedSize === 0xffffffff) {
+                entry.compressedSize = getUint64(view, field);
+                field += 8;
+            }
+            if (entry.localHeaderOffset === 0xffffffff) {
+                entry.localHeaderOffset = getUint64(view, field);
+            }
+            return;
+        }
+        offset += 4 + size;
+    }
+}
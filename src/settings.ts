@@ -1,7 +1,13 @@
 import { App, PluginSettingTab, Setting, setIcon, SearchComponent, Notice } from 'obsidian';
-import { Settings, User, Measurement, MeasurementUnit } from './types';
+import { Settings, User, Measurement, MeasurementSystem, MeasurementType, DerivedFormula, ReminderFrequency, TrendMethod } from './types';
+import { DEFAULT_METRIC_MAPPING, HEALTH_METRIC_LABELS, HEALTH_SOURCE_NAMES, HealthMetric } from './services/health-source';
 import { FolderSuggest } from './foldersuggester';
 import { FileSuggest } from './filesuggester';
+import { UnitMigrationModal } from './migration-modal';
+import { DEFAULT_PLAUSIBLE_RANGES, MEASUREMENT_TYPE_LABELS } from './modal';
+import { UserProfileModal } from './profile-modal';
+import { FORMULAS, FORMULA_INPUT_NAMES } from './services/derived-service';
+import { getPropertyName } from './services/journal-service';
 import BodyTrackerPlugin from './main';
 
 export class BodyTrackerSettingsTab extends PluginSettingTab {
@@ -14,6 +20,12 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
         this.lastConnectionState = undefined;
     }
 
+    hide(): void {
+        super.hide();
+        // Folders, templates or measurements may have changed
+        this.plugin.measurementIndex.rebuild().catch(error => console.error('Failed to index measurements:', error));
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
@@ -36,12 +48,8 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
                 .onChange(async (value) => {
                     this.plugin.settings.enableGoogleFit = value;
                     await this.plugin.saveSettings();
-                    if (value) {
-                        await this.plugin.setupGoogleFitService();
-                    } else {
-                        // Clear service when disabled
-                        this.plugin.googleFitService = undefined;
-                    }
+                    // Creates the service when enabled, clears it and its sync schedule when disabled
+                    await this.plugin.setupGoogleFitService();
                     requestAnimationFrame(() => this.display());
                 }));
 
@@ -94,8 +102,9 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
                             this.plugin.settings.googleRefreshToken = '';
                             this.plugin.settings.googleTokenExpiry = undefined;
                             await this.plugin.saveSettings();
-                            // Reset service
+                            // Reset service and stop syncing
                             this.plugin.googleFitService = undefined;
+                            this.plugin.syncService.unschedule('google-fit');
                             requestAnimationFrame(() => this.display());
                         } else {
                             try {
@@ -134,9 +143,160 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                             this.plugin.setupGoogleFitSync();
                         }));
+
+                const pendingWrites = this.plugin.settings.googlePendingWrites?.length || 0;
+                new Setting(containerEl)
+                    .setName('Write Back')
+                    .setDesc('Send manually recorded weight and body fat to Google Fit'
+                        + (pendingWrites > 0 ? ` (${pendingWrites} queued for retry)` : ''))
+                    .setClass('settings-indent')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.googleWriteBack ?? false)
+                        .onChange(async (value) => {
+                            this.plugin.settings.googleWriteBack = value;
+                            await this.plugin.saveSettings();
+                        }));
+            }
+        }
+
+        // Withings Integration Settings
+        const isWithingsConnected = !!this.plugin.settings.withingsRefreshToken && this.plugin.withingsService !== undefined;
+
+        containerEl.createEl('h3', { text: 'Withings Integration' });
+
+        new Setting(containerEl)
+            .setName('Enable Withings Integration')
+            .setDesc('Sync measurements from your Withings scale')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableWithings ?? false)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableWithings = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.setupWithingsService();
+                    requestAnimationFrame(() => this.display());
+                }));
+
+        if (this.plugin.settings.enableWithings) {
+            new Setting(containerEl)
+                .setName('Client ID')
+                .setDesc('Your Withings API Client ID')
+                .setClass('settings-indent')
+                .addText(text => text
+                    .setPlaceholder('Enter Client ID')
+                    .setValue(this.plugin.settings.withingsClientId || '')
+                    .onChange(async (value) => {
+                        this.plugin.settings.withingsClientId = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.setupWithingsService();
+                        requestAnimationFrame(() => this.display());
+                    }));
+
+            new Setting(containerEl)
+                .setName('Client Secret')
+                .setDesc('Your Withings API Client Secret')
+                .setClass('settings-indent')
+                .addText(text => text
+                    .setPlaceholder('Enter Client Secret')
+                    .setValue(this.plugin.settings.withingsClientSecret || '')
+                    .onChange(async (value) => {
+                        this.plugin.settings.withingsClientSecret = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.setupWithingsService();
+                        requestAnimationFrame(() => this.display());
+                    }));
+
+            new Setting(containerEl)
+                .setName('Callback URL')
+                .setDesc('Must match the callback URL registered for your Withings application')
+                .setClass('settings-indent')
+                .addText(text => text
+                    .setPlaceholder('http://localhost:16321/callback')
+                    .setValue(this.plugin.settings.withingsRedirectUri || '')
+                    .onChange(async (value) => {
+                        this.plugin.settings.withingsRedirectUri = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.setupWithingsService();
+                    }));
+
+            const withingsStatusDesc = isWithingsConnected ? 'Connected' :
+                (!this.plugin.settings.withingsClientId || !this.plugin.settings.withingsClientSecret) ?
+                    'Missing API credentials' : 'Not Connected';
+
+            const withingsAuthSetting = new Setting(containerEl)
+                .setName('Connection Status')
+                .setDesc(`Status: ${withingsStatusDesc}`)
+                .setClass('settings-indent');
+
+            if (this.plugin.settings.withingsClientId && this.plugin.settings.withingsClientSecret) {
+                withingsAuthSetting.addButton(button => button
+                    .setButtonText(isWithingsConnected ? 'Disconnect' : 'Connect')
+                    .setCta()
+                    .onClick(async () => {
+                        if (isWithingsConnected) {
+                            await this.plugin.withingsService?.disconnect();
+                            requestAnimationFrame(() => this.display());
+                        } else {
+                            try {
+                                // Ensure service is initialized
+                                this.plugin.setupWithingsService();
+                                if (!this.plugin.withingsService) {
+                                    throw new Error('Failed to initialize Withings service');
+                                }
+
+                                // Start OAuth flow
+                                const success = await this.plugin.withingsService.authenticate();
+                                if (!success) {
+                                    new Notice('Failed to connect to Withings. Please try again.');
+                                }
+                                requestAnimationFrame(() => this.display());
+                            } catch (error) {
+                                console.error('Failed to authenticate:', error);
+                                new Notice('Failed to connect to Withings: ' + (error instanceof Error ? error.message : 'Unknown error'));
+                            }
+                        }
+                    }));
+            }
+
+            // Only show auto-sync setting if connected
+            if (isWithingsConnected) {
+                new Setting(containerEl)
+                    .setName('Auto-Sync Interval')
+                    .setDesc('How often to automatically sync with Withings (in minutes, 0 to disable)')
+                    .setClass('settings-indent')
+                    .addText(text => text
+                        .setPlaceholder('60')
+                        .setValue(String(this.plugin.settings.withingsAutoSyncInterval || 0))
+                        .onChange(async (value) => {
+                            const interval = parseInt(value) || 0;
+                            this.plugin.settings.withingsAutoSyncInterval = interval;
+                            await this.plugin.saveSettings();
+                            this.plugin.setupWithingsSync();
+                        }));
             }
         }
 
+        // Provider metric mapping, also used by file imports such as Apple Health
+        containerEl.createEl('h3', { text: 'Provider Mapping' });
+
+        (Object.keys(HEALTH_METRIC_LABELS) as HealthMetric[]).forEach(metric => {
+            new Setting(containerEl)
+                .setName(HEALTH_METRIC_LABELS[metric])
+                .setDesc('Measurement that synced and imported values are recorded as')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Do not import');
+                    this.plugin.settings.measurements.forEach(m => dropdown.addOption(m.name, m.name));
+                    dropdown
+                        .setValue(this.plugin.settings.metricMapping?.[metric] ?? DEFAULT_METRIC_MAPPING[metric])
+                        .onChange(async (value) => {
+                            this.plugin.settings.metricMapping = {
+                                ...this.plugin.settings.metricMapping,
+                                [metric]: value
+                            };
+                            await this.plugin.saveSettings();
+                        });
+                });
+        });
+
         // Journal Entry Settings
         containerEl.createEl('h3', { text: 'Journal Entries' });
 
@@ -250,6 +410,41 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
                         this.plugin.settings.enableJournalEntryCallout = value;
                         await this.plugin.saveSettings();
                     }));
+
+            new Setting(containerEl)
+                .setName('Properties')
+                .setDesc('Also write values where Dataview and Bases can query them. Keys get a user prefix when there are several users.')
+                .setClass('settings-indent')
+                .addDropdown(dropdown => dropdown
+                    .addOption('none', 'Entries only')
+                    .addOption('frontmatter', 'Frontmatter properties (weight: 81.4)')
+                    .addOption('inline', 'Inline fields ([weight:: 81.4])')
+                    .setValue(this.plugin.settings.journalFieldMode || 'none')
+                    .onChange(async (value) => {
+                        this.plugin.settings.journalFieldMode = value as 'none' | 'frontmatter' | 'inline';
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            if (this.plugin.settings.journalFieldMode && this.plugin.settings.journalFieldMode !== 'none') {
+                this.plugin.settings.measurements.forEach(measurement => {
+                    new Setting(containerEl)
+                        .setName(`${measurement.name} Property`)
+                        .setClass('settings-indent')
+                        .addText(text => text
+                            .setPlaceholder(getPropertyName({ ...measurement, propertyName: undefined }))
+                            .setValue(measurement.propertyName || '')
+                            .onChange(async (value) => {
+                                const name = value.trim();
+                                if (name) {
+                                    measurement.propertyName = name;
+                                } else {
+                                    delete measurement.propertyName;
+                                }
+                                await this.plugin.saveSettings();
+                            }));
+                });
+            }
         }
 
         // Body Notes Settings
@@ -320,16 +515,24 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
                     .addOption('imperial', 'Imperial')
                     .setValue(this.plugin.settings.measurementSystem)
                     .onChange(async (value) => {
-                        this.plugin.settings.measurementSystem = value as 'metric' | 'imperial';
-                        // Update all measurement units based on the new system
-                        this.plugin.settings.measurements.forEach(m => {
-                            const units = this.plugin.getUnitForMeasurement(m.type);
-                            m.unit = value === 'metric' ? units.metric as MeasurementUnit : units.imperial as MeasurementUnit;
-                        });
-                        await this.plugin.saveSettings();
-                        this.display();
+                        await this.switchMeasurementSystem(value as MeasurementSystem, this.plugin.settings.imperialMassUnit || 'lbs');
                     }));
 
+        if (this.plugin.settings.measurementSystem === 'imperial') {
+            new Setting(containerEl)
+                .setName('Weight Unit')
+                .setDesc('Unit used for weights in the imperial system')
+                .setClass('settings-indent')
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOption('lbs', 'Pounds (lbs)')
+                        .addOption('st', 'Stone (st)')
+                        .setValue(this.plugin.settings.imperialMassUnit || 'lbs')
+                        .onChange(async (value) => {
+                            await this.switchMeasurementSystem('imperial', value as 'lbs' | 'st');
+                        }));
+        }
+
         // User Management
         containerEl.createEl('h3', { text: 'Users' });
 
@@ -339,8 +542,16 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
             const setting = new Setting(containerEl)
                 .setName(user.name);
 
+            const details: string[] = [];
+            if (isDefault) details.push('Default User');
+            if (user.linkedSources?.length) {
+                details.push('Linked to ' + user.linkedSources.map(id => HEALTH_SOURCE_NAMES[id] || id).join(', '));
+            }
+            if (details.length > 0) {
+                setting.setDesc(details.join(' · '));
+            }
+
             if (isDefault) {
-                setting.setDesc('Default User');
                 setting.nameEl.createSpan({
                     cls: 'default-user-star',
                     text: '★'
@@ -348,6 +559,21 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
             }
 
             setting
+                .addButton(btn => btn
+                    .setButtonText('Edit Profile')
+                    .onClick(() => {
+                        new UserProfileModal(this.app, this.plugin.settings, user, async (profile) => {
+                            // A source belongs to a single user, so linking it here unlinks it elsewhere
+                            this.plugin.settings.users.forEach(other => {
+                                if (other.id !== profile.id && other.linkedSources) {
+                                    other.linkedSources = other.linkedSources.filter(id => !profile.linkedSources?.includes(id));
+                                }
+                            });
+                            this.plugin.settings.users[index] = profile;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }).open();
+                    }))
                 .addButton(btn => btn
                     .setButtonText('Remove')
                     .onClick(async () => {
@@ -411,27 +637,130 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
 
             // Type dropdown cell
             const typeCell = measurementRow.createDiv('measurements-unit-cell');
-            const typeDropdown = new Setting(typeCell);
-            typeDropdown.addDropdown(dropdown => {
-                const system = this.plugin.settings.measurementSystem;
-                const lengthUnit = system === 'metric' ? 'Length (cm)' : 'Length (in)';
-                const weightUnit = system === 'metric' ? 'Weight (kg)' : 'Weight (lbs)';
+            if (measurement.formula) {
+                // Derived measurements get their type from the formula
+                const formula = FORMULAS[measurement.formula];
+                new Setting(typeCell)
+                    .setName(`Derived: ${formula.label}`)
+                    .setDesc('From ' + formula.inputs.map(input => FORMULA_INPUT_NAMES[input]).join(', '));
+            } else {
+                new Setting(typeCell).addDropdown(dropdown => {
+                    this.addMeasurementTypeOptions(dropdown.selectEl);
 
-                dropdown
-                    .addOption('length', lengthUnit)
-                    .addOption('weight', weightUnit)
-                    .setValue(measurement.type)
-                    .onChange(async (value) => {
-                        const newType = value as 'length' | 'weight';
-                        measurement.type = newType;
-                        const units = this.plugin.getUnitForMeasurement(newType);
-                        measurement.unit = this.plugin.settings.measurementSystem === 'metric'
-                            ? units.metric as MeasurementUnit
-                            : units.imperial as MeasurementUnit;
-                        await this.plugin.saveSettings();
-                        this.display();
+                    dropdown
+                        .setValue(measurement.type)
+                        .onChange(async (value) => {
+                            const newType = value as MeasurementType;
+                            measurement.type = newType;
+                            // Ranges are in the old type's unit
+                            delete measurement.plausibleRange;
+                            if (newType === 'custom') {
+                                measurement.customUnits ??= { metric: '', imperial: '', factor: 1 };
+                            } else {
+                                delete measurement.customUnits;
+                            }
+                            const units = this.plugin.getUnitForMeasurement(measurement);
+                            measurement.unit = this.plugin.settings.measurementSystem === 'metric'
+                                ? units.metric
+                                : units.imperial;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
+                });
+            }
+
+            // Custom measurements define their own units and conversion factor
+            if (measurement.type === 'custom' && measurement.customUnits) {
+                const customUnits = measurement.customUnits;
+                const updateUnit = async () => {
+                    const units = this.plugin.getUnitForMeasurement(measurement);
+                    measurement.unit = this.plugin.settings.measurementSystem === 'metric'
+                        ? units.metric
+                        : units.imperial;
+                    await this.plugin.saveSettings();
+                };
+
+                new Setting(typeCell)
+                    .setDesc('Metric unit, imperial unit and how many metric units one imperial unit is')
+                    .addText(text => text
+                        .setPlaceholder('Metric')
+                        .setValue(customUnits.metric)
+                        .onChange(async (value) => {
+                            customUnits.metric = value.trim();
+                            await updateUnit();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Imperial')
+                        .setValue(customUnits.imperial)
+                        .onChange(async (value) => {
+                            customUnits.imperial = value.trim();
+                            await updateUnit();
+                        }))
+                    .addText(text => {
+                        text.inputEl.type = 'number';
+                        text.setPlaceholder('Factor')
+                            .setValue(String(customUnits.factor))
+                            .onChange(async (value) => {
+                                const factor = parseFloat(value);
+                                if (!isNaN(factor) && factor > 0) {
+                                    customUnits.factor = factor;
+                                    await this.plugin.saveSettings();
+                                }
+                            });
                     });
-            });
+            }
+
+            // Values outside the plausible range ask for confirmation in the measurement modal
+            if (!measurement.formula) {
+                const metricUnit = this.plugin.getUnitForMeasurement(measurement).metric;
+                const defaults = DEFAULT_PLAUSIBLE_RANGES[measurement.type];
+                const updateRange = async (key: 'min' | 'max', value: string) => {
+                    const number = parseFloat(value);
+                    const range = { ...measurement.plausibleRange };
+                    if (isNaN(number)) {
+                        delete range[key];
+                    } else {
+                        range[key] = number;
+                    }
+
+                    if (range.min === undefined && range.max === undefined) {
+                        delete measurement.plausibleRange;
+                    } else {
+                        measurement.plausibleRange = range;
+                    }
+                    await this.plugin.saveSettings();
+                };
+
+                new Setting(typeCell)
+                    .setDesc('Quick entry aliases, comma separated')
+                    .addText(text => text
+                        .setPlaceholder('e.g. w')
+                        .setValue((measurement.aliases || []).join(', '))
+                        .onChange(async (value) => {
+                            const aliases = value.split(',').map(alias => alias.trim()).filter(alias => alias);
+                            if (aliases.length > 0) {
+                                measurement.aliases = aliases;
+                            } else {
+                                delete measurement.aliases;
+                            }
+                            await this.plugin.saveSettings();
+                        }));
+
+                new Setting(typeCell)
+                    .setDesc(metricUnit ? `Plausible range in ${metricUnit}` : 'Plausible range')
+                    .addText(text => {
+                        text.inputEl.type = 'number';
+                        text.setPlaceholder(defaults.min !== undefined ? `Min ${defaults.min}` : 'Min')
+                            .setValue(measurement.plausibleRange?.min?.toString() ?? '')
+                            .onChange(value => updateRange('min', value));
+                    })
+                    .addText(text => {
+                        text.inputEl.type = 'number';
+                        text.setPlaceholder(defaults.max !== undefined ? `Max ${defaults.max}` : 'Max')
+                            .setValue(measurement.plausibleRange?.max?.toString() ?? '')
+                            .onChange(value => updateRange('max', value));
+                    });
+            }
 
             // Controls cell
             const controlsCell = measurementRow.createDiv('measurements-controls-cell');
@@ -488,14 +817,10 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
         // Type dropdown
         const newTypeCell = newMeasurementRow.createDiv('measurements-unit-cell');
         const typeSelect = newTypeCell.createEl('select');
-        const system = this.plugin.settings.measurementSystem;
-        typeSelect.createEl('option', {
-            text: `Length (${system === 'metric' ? 'cm' : 'in'})`,
-            value: 'length'
-        });
-        typeSelect.createEl('option', {
-            text: `Weight (${system === 'metric' ? 'kg' : 'lbs'})`,
-            value: 'weight'
+        this.addMeasurementTypeOptions(typeSelect);
+        const derivedGroup = typeSelect.createEl('optgroup', { attr: { label: 'Derived' } });
+        (Object.keys(FORMULAS) as DerivedFormula[]).forEach(formula => {
+            derivedGroup.createEl('option', { text: FORMULAS[formula].label, value: `formula:${formula}` });
         });
 
         // Add button
@@ -504,21 +829,31 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
             text: 'Add'
         });
         addButton.addEventListener('click', async () => {
-            const measurementName = nameInput.value;
-            const measurementType = typeSelect.value as 'length' | 'weight';
+            const formula = typeSelect.value.startsWith('formula:')
+                ? typeSelect.value.slice('formula:'.length) as DerivedFormula
+                : undefined;
+            const measurementName = nameInput.value || (formula ? FORMULAS[formula].label : '');
+            const measurementType = formula ? FORMULAS[formula].type : typeSelect.value as MeasurementType;
 
             if (measurementName) {
-                const units = this.plugin.getUnitForMeasurement(measurementType);
-                const unit = this.plugin.settings.measurementSystem === 'metric'
-                    ? units.metric
-                    : units.imperial;
-
-                this.plugin.settings.measurements.push({
+                const measurement: Measurement = {
                     name: measurementName,
                     value: '',
                     type: measurementType,
-                    unit: unit as MeasurementUnit
-                });
+                    unit: ''
+                };
+                if (formula) {
+                    measurement.formula = formula;
+                }
+                if (measurementType === 'custom') {
+                    measurement.customUnits = { metric: '', imperial: '', factor: 1 };
+                }
+                const units = this.plugin.getUnitForMeasurement(measurement);
+                measurement.unit = this.plugin.settings.measurementSystem === 'metric'
+                    ? units.metric
+                    : units.imperial;
+
+                this.plugin.settings.measurements.push(measurement);
 
                 await this.plugin.saveSettings();
                 nameInput.value = '';
@@ -526,11 +861,391 @@ export class BodyTrackerSettingsTab extends PluginSettingTab {
             }
         });
 
+        new Setting(containerEl)
+            .setName('Change Warning Threshold')
+            .setDesc('Ask for confirmation when a value differs from the last one by more than this percentage. Use 0 to turn off.')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setValue(String(this.plugin.settings.changeWarningThreshold ?? 10))
+                    .onChange(async (value) => {
+                        const percent = parseFloat(value);
+                        if (isNaN(percent) || percent < 0) return;
+                        this.plugin.settings.changeWarningThreshold = percent;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Goals per user and measurement
+        this.addGoalsSection(containerEl);
+        this.addTrendSection(containerEl);
+        this.addStatusBarSection(containerEl);
+        this.addRemindersSection(containerEl);
+        this.addLinksSection(containerEl);
+
         // Add website and coffee sections at the end
         this.addWebsiteSection(containerEl);
         this.addCoffeeSection(containerEl);
     }
 
+    private addGoalsSection(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Goals' });
+
+        const goals = this.plugin.settings.goals || [];
+        goals.forEach((goal, index) => {
+            const user = this.plugin.settings.users.find(u => u.id === goal.userId);
+            const progress = this.plugin.goalService.getProgress(goal);
+            const target = goal.unit ? `${goal.target} ${goal.unit}` : String(goal.target);
+
+            const details: string[] = [];
+            if (progress.reached) {
+                details.push('Reached' + (goal.reachedAt ? ` on ${goal.reachedAt.slice(0, 10)}` : ''));
+            } else if (progress.percent !== undefined) {
+                details.push(`${Math.round(progress.percent)}% · ${this.plugin.goalService.getHint(goal)}`);
+            }
+            if (progress.requiredWeeklyRate !== undefined) {
+                details.push(`needs ${progress.requiredWeeklyRate.toFixed(2)} ${goal.unit}/wk`);
+            }
+            if (progress.projectedDate) {
+                details.push(`on track for ${progress.projectedDate}`);
+            }
+
+            new Setting(containerEl)
+                .setName(`${user?.name || 'Unknown'} · ${goal.measurement} ${goal.comparison === 'below' ? '≤' : '≥'} ${target}${goal.deadline ? ` by ${goal.deadline}` : ''}`)
+                .setDesc(details.join(' · '))
+                .addButton(btn => btn
+                    .setButtonText('Remove')
+                    .onClick(async () => {
+                        goals.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        if (this.plugin.settings.users.length === 0 || this.plugin.settings.measurements.length === 0) {
+            containerEl.createEl('p', {
+                text: 'Add a user and a measurement to set goals.',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
+
+        // New goal
+        const newGoal = {
+            userId: this.plugin.settings.defaultUser || this.plugin.settings.users[0].id,
+            measurement: this.plugin.settings.measurements[0].name,
+            comparison: '' as '' | 'below' | 'above',
+            target: NaN,
+            deadline: ''
+        };
+
+        new Setting(containerEl)
+            .setName('Add Goal')
+            .setDesc('Leave the direction on automatic to aim below or above the current value')
+            .addDropdown(dropdown => {
+                this.plugin.settings.users.forEach(user => dropdown.addOption(user.id, user.name));
+                dropdown.setValue(newGoal.userId).onChange(value => newGoal.userId = value);
+            })
+            .addDropdown(dropdown => {
+                this.plugin.settings.measurements.forEach(m => dropdown.addOption(m.name, m.name));
+                dropdown.setValue(newGoal.measurement).onChange(value => newGoal.measurement = value);
+            })
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Automatic')
+                .addOption('below', 'At most')
+                .addOption('above', 'At least')
+                .onChange(value => newGoal.comparison = value as '' | 'below' | 'above'))
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setPlaceholder('Target').onChange(value => newGoal.target = parseFloat(value));
+            })
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.onChange(value => newGoal.deadline = value);
+            })
+            .addButton(btn => btn
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (isNaN(newGoal.target)) {
+                        new Notice('Please enter a target value');
+                        return;
+                    }
+
+                    const current = this.plugin.goalService.getCurrentValue(newGoal.userId, newGoal.measurement);
+                    const comparison = newGoal.comparison
+                        || (current.value !== undefined && current.value < newGoal.target ? 'above' : 'below');
+
+                    this.plugin.settings.goals = [...goals, {
+                        id: Date.now().toString(),
+                        userId: newGoal.userId,
+                        measurement: newGoal.measurement,
+                        target: newGoal.target,
+                        unit: current.unit,
+                        comparison,
+                        deadline: newGoal.deadline || undefined,
+                        startValue: current.value,
+                        createdAt: (window as any).moment().format('YYYY-MM-DD')
+                    }];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private addTrendSection(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Trends' });
+
+        new Setting(containerEl)
+            .setName('Trend Method')
+            .setDesc('How readings are smoothed into a trend for charts, stats and the measurement modal')
+            .addDropdown(dropdown => dropdown
+                .addOption('ema', "Exponential moving average (Hacker's Diet)")
+                .addOption('sma', 'Moving average')
+                .setValue(this.plugin.settings.trendMethod || 'ema')
+                .onChange(async (value) => {
+                    this.plugin.settings.trendMethod = value as TrendMethod;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.trendMethod === 'sma') {
+            new Setting(containerEl)
+                .setName('Window')
+                .setDesc('Number of days averaged into each trend value')
+                .setClass('settings-indent')
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.setValue(String(this.plugin.settings.trendWindow))
+                        .onChange(async (value) => {
+                            const days = parseInt(value);
+                            if (isNaN(days) || days < 1) return;
+                            this.plugin.settings.trendWindow = days;
+                            await this.plugin.saveSettings();
+                        });
+                });
+        } else {
+            new Setting(containerEl)
+                .setName('Smoothing')
+                .setDesc('Share of each new reading in the trend, in percent. Lower values give a smoother trend.')
+                .setClass('settings-indent')
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.setValue(String(Math.round(this.plugin.settings.trendSmoothing * 100)))
+                        .onChange(async (value) => {
+                            const percent = parseFloat(value);
+                            if (isNaN(percent) || percent <= 0 || percent > 100) return;
+                            this.plugin.settings.trendSmoothing = percent / 100;
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        new Setting(containerEl)
+            .setName('Write Trend Values')
+            .setDesc('Add the trend to each new row in measurement files. Templates can also place it with <trend>.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.writeTrendValues ?? false)
+                .onChange(async (value) => {
+                    this.plugin.settings.writeTrendValues = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private addStatusBarSection(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Status Bar' });
+
+        new Setting(containerEl)
+            .setName('Show in Status Bar')
+            .setDesc("The default user's latest values, their change since the previous reading and days since the last one")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showStatusBar ?? true)
+                .onChange(async (value) => {
+                    this.plugin.settings.showStatusBar = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.showStatusBar) {
+            this.plugin.settings.measurements.forEach(measurement => {
+                const shown = this.plugin.settings.statusBarMeasurements || [];
+                new Setting(containerEl)
+                    .setName(measurement.name)
+                    .setClass('settings-indent')
+                    .addToggle(toggle => toggle
+                        .setValue(shown.includes(measurement.name))
+                        .onChange(async (value) => {
+                            // Keep the order of the measurements list
+                            const names = new Set(this.plugin.settings.statusBarMeasurements || []);
+                            if (value) {
+                                names.add(measurement.name);
+                            } else {
+                                names.delete(measurement.name);
+                            }
+                            this.plugin.settings.statusBarMeasurements = this.plugin.settings.measurements
+                                .map(m => m.name)
+                                .filter(name => names.has(name));
+                            await this.plugin.saveSettings();
+                        }));
+            });
+        }
+
+        new Setting(containerEl)
+            .setName('Ribbon Icon')
+            .setDesc('Show a ribbon icon that opens the measurement modal')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showRibbonIcon ?? true)
+                .onChange(async (value) => {
+                    this.plugin.settings.showRibbonIcon = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private addRemindersSection(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Reminders' });
+
+        new Setting(containerEl)
+            .setName('Remind About Due Measurements')
+            .setDesc('Check on startup and every 30 minutes for measurements not recorded within their schedule')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableReminders ?? false)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableReminders = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (!this.plugin.settings.enableReminders) return;
+
+        new Setting(containerEl)
+            .setName('Reminder Style')
+            .setClass('settings-indent')
+            .addDropdown(dropdown => dropdown
+                .addOption('notice', 'Notice')
+                .addOption('modal', 'Prompt with the due measurements')
+                .setValue(this.plugin.settings.reminderPrompt || 'notice')
+                .onChange(async (value) => {
+                    this.plugin.settings.reminderPrompt = value as 'notice' | 'modal';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Journal Tasks')
+            .setDesc("Add an open task for due measurements to today's journal")
+            .setClass('settings-indent')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reminderJournalTasks ?? false)
+                .setDisabled(!this.plugin.settings.enableJournalEntry)
+                .onChange(async (value) => {
+                    this.plugin.settings.reminderJournalTasks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const weekdays: string[] = (window as any).moment.weekdays();
+        this.plugin.settings.measurements.filter(m => !m.formula).forEach(measurement => {
+            const schedule = measurement.reminder;
+            const current = !schedule
+                ? 'none'
+                : schedule.frequency === 'weekly' && schedule.weekday !== undefined
+                    ? `weekly:${schedule.weekday}`
+                    : schedule.frequency;
+
+            new Setting(containerEl)
+                .setName(measurement.name)
+                .setClass('settings-indent')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('none', 'No reminder').addOption('daily', 'Daily').addOption('weekly', 'Weekly');
+                    weekdays.forEach((day, index) => dropdown.addOption(`weekly:${index}`, `Every ${day}`));
+                    dropdown
+                        .addOption('monthly', 'Monthly')
+                        .addOption('yearly', 'Yearly')
+                        .setValue(current)
+                        .onChange(async (value) => {
+                            if (value === 'none') {
+                                delete measurement.reminder;
+                            } else if (value.startsWith('weekly:')) {
+                                measurement.reminder = { frequency: 'weekly', weekday: parseInt(value.slice('weekly:'.length)) };
+                            } else {
+                                measurement.reminder = { frequency: value as ReminderFrequency };
+                            }
+                            await this.plugin.saveSettings();
+                        });
+                });
+        });
+    }
+
+    private addLinksSection(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Links' });
+
+        const example = this.plugin.settings.users[0]
+            ? `obsidian://body-tracker?user=${encodeURIComponent(this.plugin.settings.users[0].name)}&Weight=81.4`
+            : 'obsidian://body-tracker?Weight=81.4';
+        containerEl.createEl('p', {
+            text: `Phone shortcuts and NFC tags can record measurements by opening a link such as ${example}. `
+                + 'Add date=2026-10-19T07:30 for past readings and a unit to a value to have it converted.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Confirm Linked Measurements')
+            .setDesc('Ask before saving measurements from a link. When off, links with silent=true save without any notices.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.confirmLinkedEntries ?? true)
+                .onChange(async (value) => {
+                    this.plugin.settings.confirmLinkedEntries = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private addMeasurementTypeOptions(selectEl: HTMLSelectElement) {
+        const system = this.plugin.settings.measurementSystem;
+        (Object.keys(MEASUREMENT_TYPE_LABELS) as MeasurementType[]).forEach(type => {
+            const units = this.plugin.getUnitForMeasurement(type);
+            const unit = system === 'metric' ? units.metric : units.imperial;
+            selectEl.createEl('option', {
+                text: unit ? `${MEASUREMENT_TYPE_LABELS[type]} (${unit})` : MEASUREMENT_TYPE_LABELS[type],
+                value: type
+            });
+        });
+    }
+
+    /**
+     * Change units, offering to convert values already stored in the vault first
+     */
+    private async switchMeasurementSystem(system: MeasurementSystem, imperialMassUnit: 'lbs' | 'st') {
+        const applySwitch = async () => {
+            this.plugin.settings.measurementSystem = system;
+            this.plugin.settings.imperialMassUnit = imperialMassUnit;
+            // Update all measurement units based on the new system
+            this.plugin.settings.measurements.forEach(m => {
+                const units = this.plugin.getUnitForMeasurement(m);
+                m.unit = system === 'metric' ? units.metric : units.imperial;
+            });
+            await this.plugin.saveSettings();
+        };
+
+        const plan = await this.plugin.migrationService.plan(system, imperialMassUnit);
+        if (plan.length === 0) {
+            await applySwitch();
+            this.display();
+            return;
+        }
+
+        const label = system === 'metric' ? 'Metric' : `Imperial (${imperialMassUnit})`;
+        new UnitMigrationModal(this.app, label, plan, async (choice) => {
+            try {
+                if (choice === 'migrate') {
+                    const rewritten = await this.plugin.migrationService.apply(plan);
+                    new Notice(`Converted ${rewritten} stored value${rewritten === 1 ? '' : 's'}`);
+                }
+                if (choice !== 'cancel') {
+                    await applySwitch();
+                }
+            } catch (error) {
+                console.error('Failed to switch measurement system:', error);
+                new Notice('Failed to switch measurement system: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            }
+            this.display();
+        }).open();
+    }
+
     private addWebsiteSection(containerEl: HTMLElement) {
         const websiteDiv = containerEl.createEl('div', { cls: 'jots-sleep-tracker-website-section' });
 
@@ -0,0 +1,75 @@
+import type BodyTrackerPlugin from './main';
+import { MeasurementModal } from './modal';
+import { formatValue } from './units';
+
+/**
+ * Latest values of the default user in the status bar, e.g. "Weight 81.2 kg (-0.3) · 2d ago · 5 day streak".
+ * Clicking it opens the measurement modal.
+ */
+export class StatusBar {
+    private moment = (window as any).moment;
+
+    constructor(private plugin: BodyTrackerPlugin, private el: HTMLElement) {
+        el.addClass('mod-clickable');
+        el.addEventListener('click', () => new MeasurementModal(plugin.app, plugin).open());
+    }
+
+    update() {
+        const settings = this.plugin.settings;
+        this.el.empty();
+        if (!settings.showStatusBar) {
+            this.el.hide();
+            return;
+        }
+        this.el.show();
+
+        const userId = settings.defaultUser || settings.users[0]?.id;
+        const trend = this.plugin.trendService;
+        const parts: string[] = [];
+        let lastTimestamp = 0;
+
+        for (const name of settings.statusBarMeasurements || []) {
+            const stats = trend.getStats(name, userId);
+            if (!stats) continue;
+
+            const value = stats.unit ? `${formatValue(stats.latest)} ${stats.unit}` : formatValue(stats.latest);
+            const delta = stats.delta !== undefined ? ` (${trend.formatChange(stats.delta, '')})` : '';
+            parts.push(`${name} ${value}${delta}`);
+            lastTimestamp = Math.max(lastTimestamp, stats.latestTimestamp);
+        }
+
+        if (parts.length === 0) {
+            this.el.setText('Body Tracker: no measurements yet');
+            return;
+        }
+
+        const days = this.moment().startOf('day').diff(this.moment(lastTimestamp).startOf('day'), 'days');
+        parts.push(days === 0 ? 'today' : days === 1 ? 'yesterday' : `${days}d ago`);
+
+        const streak = this.getStreak(userId);
+        if (streak > 1) parts.push(`${streak} day streak`);
+
+        this.el.setText(parts.join(' · '));
+        this.el.setAttr('aria-label', 'Record body measurements');
+    }
+
+    /**
+     * Consecutive days up to today or yesterday with at least one reading of the user
+     */
+    private getStreak(userId?: string): number {
+        const days = new Set(this.plugin.measurementIndex.getReadings({ userId })
+            .map(reading => this.moment(reading.timestamp).format('YYYY-MM-DD')));
+
+        let day = this.moment().startOf('day');
+        if (!days.has(day.format('YYYY-MM-DD'))) {
+            day = day.subtract(1, 'day');
+        }
+
+        let streak = 0;
+        while (days.has(day.format('YYYY-MM-DD'))) {
+            streak++;
+            day = day.subtract(1, 'day');
+        }
+        return streak;
+    }
+}
@@ -1,17 +1,73 @@
-export type MeasurementType = 'length' | 'weight';
+import { DEFAULT_METRIC_MAPPING, HealthMetric } from './services/health-source';
+
+export type MeasurementType = 'length' | 'mass' | 'percentage' | 'score' | 'custom';
 export type MeasurementSystem = 'metric' | 'imperial';
-export type MeasurementUnit = 'cm' | 'in' | 'kg' | 'lbs';
+export type MeasurementUnit = 'cm' | 'in' | 'kg' | 'lbs' | 'st' | '%' | '';
+
+/**
+ * User-defined units for 'custom' measurements, e.g. kcal/kcal or ml/fl oz.
+ * One imperial unit equals `factor` metric units.
+ */
+export interface CustomUnits {
+    metric: string;
+    imperial: string;
+    factor: number;
+}
+
+export type Sex = 'male' | 'female';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive';
 
 export interface User {
     id: string;
     name: string;
+    height?: number; // cm
+    birthdate?: string; // YYYY-MM-DD
+    sex?: Sex;
+    activityLevel?: ActivityLevel;
+    measurementSystem?: MeasurementSystem; // Overrides the global system for this user
+    linkedSources?: string[]; // IDs of the health sources whose data belongs to this user
+}
+
+export type TrendMethod = 'ema' | 'sma';
+
+export type ReminderFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface ReminderSchedule {
+    frequency: ReminderFrequency;
+    weekday?: number; // Weekly reminders only, 0 is Sunday
 }
 
+export interface ReminderState {
+    snoozedUntil?: number; // Unix milliseconds
+    skippedOn?: string; // YYYY-MM-DD
+}
+
+export type DerivedFormula = 'bmi' | 'waistToHip' | 'waistToHeight' | 'leanMass' | 'navyBodyFat';
+
 export interface Measurement {
     name: string;
     value: string;
     type: MeasurementType;
-    unit: MeasurementUnit;
+    unit: string;
+    customUnits?: CustomUnits;
+    formula?: DerivedFormula; // Computed from other measurements instead of entered
+    plausibleRange?: { min?: number, max?: number }; // In the metric unit, overrides the type's default range
+    aliases?: string[]; // Short names for quick entry, e.g. "w" for Weight
+    reminder?: ReminderSchedule;
+    propertyName?: string; // Frontmatter or inline field key, defaults to the name in snake_case
+}
+
+export interface Goal {
+    id: string;
+    userId: string;
+    measurement: string;
+    target: number; // In `unit`
+    unit: string;
+    comparison: 'below' | 'above'; // Reached once the latest value is at or below/above the target
+    deadline?: string; // YYYY-MM-DD
+    startValue?: number; // Latest value when the goal was set, in `unit`
+    createdAt: string; // YYYY-MM-DD
+    reachedAt?: string; // YYYY-MM-DD HH:mm
 }
 
 export interface MeasurementRecord {
@@ -20,6 +76,19 @@ export interface MeasurementRecord {
     userId: string;
 }
 
+export interface SyncLedgerEntry {
+    lastSynced?: number; // Unix seconds of the newest imported sample
+    imported: string[]; // Sample keys (`<metric>:<timestamp>`) already written
+    history?: string[]; // Keys of backfilled and imported samples older than the retention window, never pruned
+}
+
+export interface PendingFitWrite {
+    date: number; // Unix seconds
+    weight?: number; // kg
+    bodyFat?: number; // percent
+    attempts: number;
+}
+
 export interface Settings {
     // Journal settings
     enableJournalEntry: boolean;
@@ -32,6 +101,7 @@ export interface Settings {
     decoratedTaskSymbol: string;
     taskSvgIcon: string;
     dailyNoteTemplate?: string;
+    journalFieldMode: 'none' | 'frontmatter' | 'inline'; // Also write values as properties for Dataview and Bases
 
     // Measurement file settings
     enableMeasurementFiles: boolean;
@@ -52,7 +122,39 @@ export interface Settings {
 
     // Measurement settings
     measurementSystem: MeasurementSystem;
+    imperialMassUnit: 'lbs' | 'st';
     measurements: Measurement[];
+    goals: Goal[];
+    changeWarningThreshold: number; // Percent difference from the last value that asks for confirmation, 0 disables
+
+    // Trend settings
+    trendMethod: TrendMethod; // Exponential or simple moving average
+    trendSmoothing: number; // EMA weight of each new reading, 0-1
+    trendWindow: number; // SMA window in days
+    writeTrendValues: boolean; // Add a trend column to measurement file rows
+
+    // Status bar and ribbon
+    showStatusBar: boolean;
+    statusBarMeasurements: string[]; // Names of the measurements shown in the status bar
+    showRibbonIcon: boolean;
+
+    // Reminders for overdue measurements
+    enableReminders: boolean;
+    reminderPrompt: 'notice' | 'modal';
+    reminderJournalTasks: boolean; // Add an unchecked task to today's journal
+    reminderState: { [userId: string]: { [measurement: string]: ReminderState } };
+
+    // obsidian://body-tracker links
+    confirmLinkedEntries: boolean; // Show a confirmation before saving, otherwise `silent` links save without notices
+
+    // Export
+    exportFolder: string; // Vault folder exports are saved to
+
+    // Maps provider metrics onto configured measurement names
+    metricMapping: Partial<Record<HealthMetric, string>>;
+
+    // Already imported samples and sync cursors, keyed by source ID then user ID
+    syncLedger: { [sourceId: string]: { [userId: string]: SyncLedgerEntry } };
 
     // Google Fit integration settings
     enableGoogleFit: boolean;
@@ -63,6 +165,19 @@ export interface Settings {
     googleTokenExpiry?: number;
     googleAuthState?: string;
     googleAutoSyncInterval: number;
+    googleWriteBack: boolean;
+    googlePendingWrites: PendingFitWrite[];
+
+    // Withings integration settings
+    enableWithings: boolean;
+    withingsClientId: string;
+    withingsClientSecret: string;
+    withingsRedirectUri: string;
+    withingsAccessToken?: string;
+    withingsRefreshToken?: string;
+    withingsTokenExpiry?: number;
+    withingsAuthState?: string;
+    withingsAutoSyncInterval: number;
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -75,19 +190,51 @@ export const DEFAULT_SETTINGS: Settings = {
     stringPrefixLetter: 'b',
     decoratedTaskSymbol: '⚡️',
     taskSvgIcon: '⚡️', // Ensure there's a default icon
+    journalFieldMode: 'none',
 
     enableMeasurementFiles: true,
     measurementFolder: 'Measurements',
     measurementEntryTemplate: '| <date> | <user> | <measure> <unit> |',
     measurementFileNameFormat: '<measure>',
 
+    enableBodyNotes: false,
+    bodyNotesFolder: 'Body',
+    bodyNoteEntryTemplate: '| <date> | <user> | <measure> <unit> |',
+
     users: [],
     measurementSystem: 'metric',
+    imperialMassUnit: 'lbs',
     measurements: [],
+    goals: [],
+    changeWarningThreshold: 10,
+    trendMethod: 'ema',
+    trendSmoothing: 0.1,
+    trendWindow: 7,
+    writeTrendValues: false,
+    confirmLinkedEntries: true,
+    exportFolder: 'Exports',
+    showStatusBar: true,
+    statusBarMeasurements: ['Weight'],
+    showRibbonIcon: true,
+    enableReminders: false,
+    reminderPrompt: 'notice',
+    reminderJournalTasks: false,
+    reminderState: {},
+    metricMapping: { ...DEFAULT_METRIC_MAPPING },
+    syncLedger: {},
 
     // Google Fit defaults
     enableGoogleFit: false,
     googleClientId: '',
     googleClientSecret: '',
-    googleAutoSyncInterval: 60
+    googleAutoSyncInterval: 60,
+    googleWriteBack: false,
+    googlePendingWrites: [],
+
+    // Withings defaults
+    enableWithings: false,
+    withingsClientId: '',
+    withingsClientSecret: '',
+    withingsRedirectUri: 'http://localhost:16321/callback',
+    withingsAutoSyncInterval: 60
 };
\ No newline at end of file
@@ -0,0 +1,161 @@
+import type { Measurement, MeasurementSystem, MeasurementType, MeasurementUnit, Settings } from './types';
+
+export type Dimension = 'mass' | 'length' | 'percentage';
+
+// Factor to convert one unit into the canonical unit of its dimension (kg, cm, %)
+const UNIT_FACTORS: Record<string, { dimension: Dimension, factor: number }> = {
+    kg: { dimension: 'mass', factor: 1 },
+    lbs: { dimension: 'mass', factor: 0.45359237 },
+    st: { dimension: 'mass', factor: 6.35029318 },
+    cm: { dimension: 'length', factor: 1 },
+    in: { dimension: 'length', factor: 2.54 },
+    '%': { dimension: 'percentage', factor: 1 }
+};
+
+export const CANONICAL_UNITS: Record<Dimension, MeasurementUnit> = {
+    mass: 'kg',
+    length: 'cm',
+    percentage: '%'
+};
+
+// Spellings accepted when reading values back from notes
+const UNIT_ALIASES: Record<string, MeasurementUnit> = {
+    kg: 'kg', kgs: 'kg', kilograms: 'kg',
+    lb: 'lbs', lbs: 'lbs', pounds: 'lbs',
+    st: 'st', stone: 'st',
+    cm: 'cm', centimeters: 'cm', centimetres: 'cm',
+    in: 'in', inch: 'in', inches: 'in',
+    '%': '%', percent: '%'
+};
+
+const VALUE_WITH_UNIT = /(-?\d+(?:[.,]\d+)?)\s*(kilograms|kgs?|pounds|lbs?|stone|st|centimet(?:er|re)s|cm|inch(?:es)?|in|%|percent)(?![\w])/i;
+
+export function getDimension(unit: string): Dimension | undefined {
+    return UNIT_FACTORS[unit]?.dimension;
+}
+
+export function normalizeUnit(unit: string): MeasurementUnit | undefined {
+    return UNIT_ALIASES[unit.trim().toLowerCase()];
+}
+
+/**
+ * Convert a value between two units of the same dimension
+ */
+export function convert(value: number, from: string, to: string): number {
+    if (from === to) return value;
+
+    const source = UNIT_FACTORS[from];
+    const target = UNIT_FACTORS[to];
+    if (!source || !target || source.dimension !== target.dimension) {
+        throw new Error(`Cannot convert from ${from} to ${to}`);
+    }
+
+    return value * source.factor / target.factor;
+}
+
+export function toCanonical(value: number, unit: string): number {
+    const dimension = getDimension(unit);
+    return dimension ? convert(value, unit, CANONICAL_UNITS[dimension]) : value;
+}
+
+/**
+ * The unit a measurement type is displayed in for a measurement system.
+ * Custom measurements carry their own units, see getDisplayUnit.
+ */
+export function getUnitForType(type: MeasurementType, system: MeasurementSystem, settings?: Settings): MeasurementUnit {
+    switch (type) {
+        case 'length':
+            return system === 'metric' ? 'cm' : 'in';
+        case 'mass':
+            return system === 'metric' ? 'kg' : (settings?.imperialMassUnit || 'lbs');
+        case 'percentage':
+            return '%';
+        default:
+            return '';
+    }
+}
+
+/**
+ * The measurement system a user records in: their profile override, else the global setting
+ */
+export function getUserSystem(settings: Settings, userId?: string): MeasurementSystem {
+    const user = userId ? settings.users.find(u => u.id === userId) : undefined;
+    return user?.measurementSystem || settings.measurementSystem;
+}
+
+/**
+ * The unit new values of a measurement are written in
+ */
+export function getDisplayUnit(measurement: Measurement, settings: Settings, system?: MeasurementSystem): string {
+    const targetSystem = system || settings.measurementSystem;
+    if (measurement.type === 'custom') {
+        return (targetSystem === 'metric' ? measurement.customUnits?.metric : measurement.customUnits?.imperial) || '';
+    }
+    return getUnitForType(measurement.type, targetSystem, settings);
+}
+
+/**
+ * Convert a value of a measurement between units, including user-defined custom units
+ */
+export function convertMeasurementValue(measurement: Measurement, value: number, from: string, to: string): number {
+    if (from === to) return value;
+
+    const custom = measurement.customUnits;
+    if (measurement.type === 'custom' && custom) {
+        if (from === custom.imperial && to === custom.metric) return value * custom.factor;
+        if (from === custom.metric && to === custom.imperial) return value / custom.factor;
+    }
+
+    return convert(value, from, to);
+}
+
+/**
+ * Like convertMeasurementValue, but returns undefined instead of throwing when the units
+ * don't convert into each other. Values without a unit are assumed to be in the target unit.
+ */
+export function tryConvertMeasurementValue(measurement: Measurement, value: number, from: string, to: string): number | undefined {
+    if (from === to || !from || !to) return value;
+
+    const custom = measurement.customUnits;
+    const customUnits = custom ? [custom.metric, custom.imperial] : [];
+    const isCustomPair = customUnits.includes(from) && customUnits.includes(to);
+    if (!isCustomPair && (!getDimension(to) || getDimension(from) !== getDimension(to))) {
+        return undefined;
+    }
+
+    return convertMeasurementValue(measurement, value, from, to);
+}
+
+/**
+ * Fill the <unit> placeholder of an entry template, dropping the separating space for unitless values
+ */
+export function replaceUnitPlaceholder(template: string, unit: string): string {
+    return unit
+        ? template.replace(/<unit>/g, unit)
+        : template.replace(/ ?<unit>/g, '');
+}
+
+/**
+ * Find the first "<number> <unit>" pair in a piece of text, e.g. "81.4 kg" or "| 32 in |"
+ */
+export function parseValueWithUnit(text: string): { value: number, unit: MeasurementUnit, index: number, match: string } | undefined {
+    const match = VALUE_WITH_UNIT.exec(text);
+    if (!match) return undefined;
+
+    const unit = normalizeUnit(match[2]);
+    if (!unit) return undefined;
+
+    return {
+        value: parseFloat(match[1].replace(',', '.')),
+        unit,
+        index: match.index,
+        match: match[0]
+    };
+}
+
+/**
+ * Format a number the way values are written to notes
+ */
+export function formatValue(value: number, decimals = 1): string {
+    return value.toFixed(decimals);
+}